@@ -3,643 +3,8241 @@ import {
 	Editor,
 	MarkdownView,
 	Modal,
+	FuzzySuggestModal,
 	Notice,
 	Plugin,
 	PluginSettingTab,
 	Setting,
 	TFile,
-	Command,
+	TFolder,
+	HeadingCache,
+	MarkdownFileInfo,
+	moment,
+	Reference,
+	ReferenceCache,
+	CachedMetadata,
+	parseLinktext,
+	resolveSubpath,
+	getAllTags,
+	loadPdfJs,
+	arrayBufferToBase64,
+	stringifyYaml,
+	normalizePath,
+	ItemView,
+	WorkspaceLeaf,
+	MarkdownRenderer,
+	ButtonComponent,
+	TAbstractFile,
+	Menu,
+	MenuItem,
+	debounce,
+	getFrontMatterInfo,
+	parseYaml,
 } from "obsidian";
+import { AllCanvasNodeData, CanvasData } from "obsidian/canvas";
+import { StateEffect, StateField } from "@codemirror/state";
+import { EditorView } from "@codemirror/view";
 
 // Remember to rename these classes and interfaces!
 
 interface LLMContextSettings {
-	instructionTemplates: { [key: string]: string };
-	outputOption: "clipboard" | "file" | "modal";
+	instructionTemplates: { [key: string]: InstructionTemplate };
+	// Folder of templates stored as notes, none when empty
+	templateFolder: string;
+	// Run in order when a prompt is generated. Templates can override them.
+	outputActions: OutputAction[];
+	// Note the "log" action appends prompts to
+	logNotePath: string;
+	// File name pattern of saved prompts, with variables like {{basename}}
 	outputFileName: string;
+	// Folder of saved prompts, the vault root when empty
+	outputFolder: string;
+	// What to do when the file to save the prompt to exists
+	outputConflict: OutputConflict;
+	// Whether saved prompts record their source, template and files
+	outputFrontmatter: boolean;
+	openOutputFile: boolean;
+	// Where the response is written when sending the prompt to the endpoint
+	responseTarget: ResponseTarget;
+	// Folder of response notes, the vault root when empty
+	responseFolder: string;
+	// Chat endpoint the prompt is sent to. The API key is only sent in the
+	// request headers and never written into notes.
+	llmProvider: LLMProviderId;
+	llmBaseUrl: string;
+	llmApiKey: string;
+	llmModel: string;
+	llmMaxTokens: number;
+	linkDepth: number;
+	expandEmbeds: boolean;
+	// Maximum estimated tokens per prompt, 0 for no limit
+	tokenBudget: number;
+	tokenEstimator: string;
+	truncationPriority: TruncationPriority;
+	promptFormat: PromptFormatId;
+	// Named system prompts, and the name of the one used when generating
+	systemPrompts: { [name: string]: string };
+	activeSystemPrompt: string;
+	previewBeforeGenerate: boolean;
+	backlinksMode: BacklinksMode;
+	// Whether selection-scoped prompts name the headings the selection is under
+	includeHeadingPath: boolean;
+	// How prompts from a folder, tag or search gather and order their files
+	sourceRecursive: boolean;
+	sourceMainMode: SourceMainMode;
+	sourceOrder: SourceOrder;
+	frontmatterMode: FrontmatterMode;
+	// Whether and what to redact from file contents before output
+	redactionEnabled: boolean;
+	redactionDetectors: RedactionDetectorId[];
+	// Callout type whose callouts are redacted, e.g. "private" for > [!private]
+	redactionCalloutType: string;
+	redactionRules: RedactionRule[];
+	exclusionRules: ExclusionRules;
+	// Whether linked non-Markdown files with a handler are included
+	includeAttachments: boolean;
+	// Maximum number of CSV rows included as a table
+	csvRowLimit: number;
+	// Number of generated prompts kept in the history, 0 to keep none
+	historySize: number;
+	// Entries in the file, editor and tab header menus
+	showContextMenus: boolean;
+	showRibbonIcon: boolean;
 }
 
-const SYSTEM_INSTRUCTION = `You are analyzing content from an Obsidian vault. 
-You must refrain from inventing details.  
-
-The data is structured with specific format markers:
+/**
+ * An instruction template and its settings. Unset settings fall back to the
+ * global settings.
+ */
+interface InstructionTemplate {
+	instruction: string;
+	// Shown after the template name in command names
+	description?: string;
+	// Name of the system prompt used instead of the active one
+	systemPrompt?: string;
+	promptFormat?: PromptFormatId;
+	outputActions?: OutputAction[];
+	linkDepth?: number;
+	backlinksMode?: BacklinksMode;
+	// Applied in addition to the global exclusion rules
+	exclusionRules?: ExclusionRules;
+	// 0 for no limit
+	tokenBudget?: number;
+	// Part of the ids of the template's commands. It is kept when the
+	// template is renamed, so hotkeys stay bound.
+	commandId?: string;
+}
 
-===== [INSTRUCTION START] =====
-This optional section contains specific instructions for you about what to do with the content.
-If present, follow these instructions carefully.
-===== [INSTRUCTION END] =====
+// Menu items have submenus since Obsidian 1.4, which isn't part of the
+// public API
+interface SubmenuMenuItem extends MenuItem {
+	setSubmenu?: () => Menu;
+}
 
-===== [Main Content Start] =====
-This section contains the primary document you should focus on.
-Treat the document as the principal source of truth. Base all primary summaries, analyses, and outputs on this file first.
+// What to do with an imported template whose name is taken
+type ImportConflict = "skip" | "overwrite" | "rename";
 
-File Name: {filename}
-===== [File Start] =====
-{content of the main file}
-===== [File End] =====
-===== [Main Content End] =====
+/**
+ * Settings as saved by older versions, which are migrated when loaded
+ */
+type SavedSettings = Omit<
+	Partial<LLMContextSettings>,
+	"instructionTemplates"
+> & {
+	// Templates used to be only their instruction text
+	instructionTemplates?: { [key: string]: InstructionTemplate | string };
+	// Per-template options, now part of the templates
+	templateOptions?: { [key: string]: Partial<InstructionTemplate> };
+	// A single output action
+	outputOption?: OutputAction;
+	// The history, now stored in its own file
+	promptHistory?: PromptHistoryEntry[];
+};
 
-===== [Linked Files Start] =====
-This section contains supporting documents that are referenced from the main content using [[filename]] syntax in Obsidian.
-Whenever you encounter a reference in the main content in the format [[filename]], consult the corresponding file in the **Linked Files** section.  
-Extract any relevant information from that file and integrate it into your overall analysis or response—even if its update status is uncertain.
+/**
+ * Rules for files that are never included as linked files, backlinks,
+ * embeds or files of a folder, tag or search
+ */
+interface ExclusionRules {
+	// Folder paths, including their subfolders
+	folders: string[];
+	// Glob patterns matched against file paths, e.g. "**/Archive/*.md"
+	globs: string[];
+	// Tags, including their nested tags
+	tags: string[];
+	// Files larger than this are excluded, 0 for no limit
+	maxSizeKb: number;
+}
 
-Each file is structured as:
+/**
+ * Estimates how many tokens a text takes up in a model's context window.
+ * Other tokenizers can be added with `registerTokenEstimator`.
+ */
+export interface TokenEstimator {
+	id: string;
+	name: string;
+	estimate(text: string): number;
+}
 
-File Name: {filename}
-===== [File Start] =====
-{content of the linked file}
-===== [File End] =====
-===== [Linked Files End] =====`;
+/**
+ * Converts a linked non-Markdown file, like a PDF or canvas, into text for
+ * the prompt. Other handlers can be added with `registerAttachmentHandler`.
+ */
+export interface AttachmentHandler {
+	// File type shown in the prompt, e.g. "PDF"
+	type: string;
+	// File extensions handled, without the dot
+	extensions: string[];
+	render(app: App, file: TFile, options: AttachmentOptions): Promise<string>;
+}
 
-const DEFAULT_SETTINGS: LLMContextSettings = {
-	instructionTemplates: {
-		summarize:
-			"Please summarize the main points from this Markdown content and its linked references.",
-		review: "Please review the following Markdown content and its linked references.",
-	},
-	outputOption: "clipboard",
-	outputFileName: "LLMPrompt.md",
-};
+interface AttachmentOptions {
+	// Alt text given in the link, e.g. ![[photo.png|A sunset]]
+	altText?: string;
+	format: PromptFormat;
+	csvRowLimit: number;
+}
 
-export default class LLMContextPlugin extends Plugin {
-	settings: LLMContextSettings;
-	commands: Command[] = [];
+type OutputAction = "clipboard" | "file" | "modal" | "send" | "cursor" | "log";
 
-	async onload() {
-		await this.loadSettings();
+type OutputConflict = "overwrite" | "append" | "increment";
 
-		// Register commands for each instruction template
-		this.registerCommands();
+// Whether a sent prompt's response goes to a new note or below the cursor
+type ResponseTarget = "note" | "cursor";
 
-		// Add command to generate with custom instruction
-		this.addCommand({
-			id: "generate-llm-context-custom",
-			name: "Generate LLM Context (Custom Instruction)",
-			callback: async () => {
-				const modal = new CustomInstructionModal(
-					this.app,
-					async (instruction) => {
-						if (instruction) {
-							await this.generateLLMPrompt("custom", instruction);
-						}
-					}
-				);
-				modal.open();
-			},
-		});
+type LLMProviderId = "openai" | "anthropic";
 
-		// Add settings tab
-		this.addSettingTab(new LLMContextSettingTab(this.app, this));
-	}
+/**
+ * A chat model HTTP API. Responses are streamed as server-sent events.
+ */
+interface LLMProvider {
+	id: LLMProviderId;
+	name: string;
+	defaultBaseUrl: string;
+	createRequest(
+		settings: LLMContextSettings,
+		messages: ChatMessage[]
+	): { url: string; headers: { [name: string]: string }; body: object };
+	// Text added by a server-sent event, if any. Throws on error events.
+	parseEvent(event: StreamEvent): string | undefined;
+}
 
-	onunload() {
-		// Clean up resources
-	}
+/**
+ * The fields of the OpenAI and Anthropic server-sent events that are used
+ */
+interface StreamEvent {
+	type?: string;
+	error?: { message?: string };
+	choices?: { delta?: { content?: string } }[];
+	delta?: { text?: string };
+}
 
-	async generateLLMPrompt(templateKey: string, customInstruction?: string) {
-		const activeFile = this.app.workspace.getActiveFile();
+interface ChatMessage {
+	role: "user" | "assistant";
+	content: string;
+}
 
-		if (!activeFile) {
-			new Notice("No active file selected");
-			return;
-		}
+/**
+ * What a prompt was generated from, recorded with a sent prompt's response
+ */
+interface OutputDetails {
+	templateKey: string;
+	// Description of the source, e.g. `file "Project"`
+	description: string;
+	// Main, linked and backlinking files included in the prompt
+	files: TFile[];
+	// File the response note is named after
+	sourceFile: TFile;
+	// Variables for the output file name
+	variables: VariableResolver;
+}
 
-		try {
-			// Get instruction text
-			let instructionText = "";
-			if (templateKey === "custom" && customInstruction) {
-				instructionText = customInstruction;
-			} else {
-				// Check if the requested template exists
-				if (!this.settings.instructionTemplates[templateKey]) {
-					new Notice(`Template "${templateKey}" not found`);
-					return;
-				}
+/**
+ * A prompt built from a source, before it is output
+ */
+interface BuiltPrompt {
+	source: ContextSource;
+	context: PromptContext;
+	format: PromptFormat;
+	prompt: string;
+	details: OutputDetails;
+	// Also applied to files added later, null if redaction is off
+	redactor: Redactor | null;
+	edits: ContextEdits;
+}
 
-				// Get the instruction text from the template
-				instructionText =
-					this.settings.instructionTemplates[templateKey];
-			}
+/**
+ * Files left out of or added to a prompt by hand, applied again when the
+ * prompt is built with another template
+ */
+interface ContextEdits {
+	// Linked files left out, by path and subpath
+	removedFiles: string[];
+	// Notes added as linked files
+	addedFiles: TFile[];
+	// Backlinks left out, by path
+	removedBacklinks: string[];
+}
 
-			// Get main file content
-			const mainFileContent = await this.app.vault.read(activeFile);
+/**
+ * A generated prompt, with what is needed to generate it again. Files are
+ * stored by path.
+ */
+interface PromptHistoryEntry {
+	// Time of generation, in milliseconds since the epoch
+	timestamp: number;
+	templateKey: string;
+	customInstruction?: string;
+	source: {
+		description: string;
+		mainFiles: string[];
+		otherFiles: string[];
+		// Where the selected text was, as offsets in the file. Its text isn't
+		// kept, so the history doesn't hold what redaction would hide.
+		selection?: { path: string; start: number; end: number };
+	};
+	// Files included in the prompt, with their modification time then
+	files: { path: string; mtime: number }[];
+	tokens: number;
+	prompt: string;
+	// Format the prompt was rendered in, unset for entries of older versions
+	promptFormat?: PromptFormatId;
+	// Files left out or added by hand, by path. Unset for entries of older
+	// versions.
+	edits?: {
+		removedFiles: string[];
+		addedFiles: string[];
+		removedBacklinks: string[];
+	};
+}
 
-			// Extract links from the main file
-			const linkMatches = Array.from(
-				mainFileContent.matchAll(/\[\[([^\|\]]+)(\|([^\]]+))?\]\]/g)
-			);
-			const linkedFileNames = linkMatches.map((match) => match[1].trim());
+/**
+ * A line of a diff between two prompts
+ */
+interface DiffLine {
+	type: "same" | "added" | "removed";
+	text: string;
+}
 
-			// Get all Markdown files in the vault
-			const markdownFiles = this.app.vault.getMarkdownFiles();
+/**
+ * A message shown in the chat view. Events, like adding a file, are only
+ * shown and saved, not sent.
+ */
+interface ChatEntry {
+	role: "user" | "assistant" | "event";
+	content: string;
+}
 
-			// Build the prompt with system instruction first
-			let prompt = `===== [SYSTEM START] =====\n${SYSTEM_INSTRUCTION}\n===== [SYSTEM END] =====\n\n`;
+// Whether to include notes linking to the active file, and how much of them
+type BacklinksMode = "off" | "note" | "paragraph";
 
-			// Add user instruction if provided
-			if (instructionText.trim() !== "") {
-				prompt += `===== [INSTRUCTION START] =====\n${instructionText}\n===== [INSTRUCTION END] =====\n\n`;
-			}
+// Which linked files to keep first when the prompt exceeds the token budget
+type TruncationPriority = "distance" | "size" | "recency";
 
-			// Add main content section
-			prompt += `===== [Main Content Start] =====\n`;
-			prompt += `File Name: ${activeFile.basename}\n`;
-			prompt += `===== [File Start] =====\n`;
-			prompt += `${mainFileContent}\n`;
-			prompt += `===== [File End] =====\n`;
-			prompt += `===== [Main Content End] =====\n\n`;
+// Whether all files of a folder, tag or search are main content, or the user
+// chooses one main file and the others are included as linked files
+type SourceMainMode = "peers" | "choose";
 
-			// Add linked files section
-			prompt += `===== [Linked Files Start] =====\n`;
+// How the files of a folder, tag or search are ordered
+type SourceOrder = "path" | "modified" | "created";
 
-			// Find and add each linked file (filtering out self-references and duplicates)
-			let foundLinkedFiles = false;
-			const processedFiles = new Set<string>(); // Track files we've already processed
+// Whether frontmatter is kept in file contents, removed, or moved out of the
+// content into the properties of each file
+type FrontmatterMode = "keep" | "strip" | "metadata";
 
-			// Add the active file to the processed set to avoid self-references
-			processedFiles.add(activeFile.basename.toLowerCase());
+type RedactionDetectorId = "comment" | "callout" | "secret" | "email" | "phone";
 
-			for (const linkedName of linkedFileNames) {
-				const normalizedName = linkedName.toLowerCase();
+/**
+ * A kind of sensitive text that is replaced by placeholders before output.
+ * If the pattern has a capture group, only the text of the first group is
+ * replaced; otherwise the whole match is.
+ */
+interface RedactionDetector {
+	name: string;
+	// Placeholder prefix, e.g. "EMAIL" for [EMAIL_1]
+	label: string;
+	// Global regular expression matching the sensitive text
+	pattern: RegExp;
+	// Return false to keep a match, e.g. a number that isn't a phone number
+	accept?: (value: string) => boolean;
+	// Keep matches that are part of a longer token, like digits in base64
+	// data or an identifier
+	standalone?: boolean;
+}
 
-				// Skip if we've already processed this file (duplicate links)
-				if (processedFiles.has(normalizedName)) {
-					continue;
-				}
+/**
+ * A user-defined redaction rule from the settings
+ */
+interface RedactionRule {
+	name: string;
+	// Regular expression source, without slashes
+	pattern: string;
+}
 
-				// Find the file by basename
-				const linkedFile = markdownFiles.find(
-					(file) => file.basename.toLowerCase() === normalizedName
-				);
+/**
+ * A placeholder in a redacted prompt and where it was used
+ */
+interface RedactionReportEntry {
+	placeholder: string;
+	// Name of the detector or rule that matched
+	detector: string;
+	// Paths of the files containing the redacted text
+	files: string[];
+	occurrences: number;
+}
 
-				if (linkedFile) {
-					// Mark this file as processed
-					processedFiles.add(normalizedName);
+// Frontmatter properties with which notes control their own context
+const FRONTMATTER_KEYS = {
+	// `true` to never include the note
+	exclude: "llm-exclude",
+	// Links to notes that are always included along with the note
+	include: "llm-include",
+	// Template used by the "Note's Template" command, and listed first when
+	// choosing a template for the note
+	template: "llm-template",
+	// Link depth when the note is the main file
+	depth: "llm-depth",
+};
 
-					// Skip self-references to the active file
-					if (
-						linkedFile.basename.toLowerCase() ===
-						activeFile.basename.toLowerCase()
-					) {
-						continue;
-					}
+/**
+ * What a prompt is built from: the active file, a selection of it, or the
+ * files of a folder, tag or search
+ */
+interface ContextSource {
+	// Human-readable description, e.g. `folder "Projects"`
+	description: string;
+	// Files making up the main content, in order
+	mainFiles: TFile[];
+	// Other files of the source, included as linked files
+	otherFiles: TFile[];
+	// Set when the main content is only the selected text of a main file
+	selection?: SelectionScope;
+}
 
-					foundLinkedFiles = true;
-					const linkedContent = await this.app.vault.read(linkedFile);
+/**
+ * A linked file collected while traversing links outward from the active file
+ */
+interface LinkedFileEntry {
+	file: TFile;
+	content: string;
+	// Number of link hops between the active file and this file
+	depth: number;
+	// Basenames of the files traversed to reach this file, starting with the active file
+	via: string[];
+	// Set when only a heading or block of the file is included
+	excerpt?: Excerpt;
+	// Set when the file was not reached through a link, describing how it was
+	// added instead, e.g. "added manually"
+	origin?: string;
+	// Frontmatter properties, when moved out of the content
+	properties?: string;
+	// Type of a non-Markdown file, set by its attachment handler
+	fileType?: string;
+}
 
-					prompt += `File Name: ${linkedFile.basename}\n`;
-					prompt += `===== [File Start] =====\n`;
-					prompt += `${linkedContent}\n`;
-					prompt += `===== [File End] =====\n`;
-				}
-			}
+/**
+ * A heading subtree or block extracted from a file for a `#heading` or
+ * `^block-id` link
+ */
+interface Excerpt {
+	// Subpath as written in the link, e.g. "#API" or "#^block-id"
+	subpath: string;
+	// Human-readable description of the excerpt, e.g. `heading "API"`
+	description: string;
+	content: string;
+	// Offsets of the excerpt within the file
+	start: number;
+	end: number;
+}
 
-			if (!foundLinkedFiles) {
-				prompt += `No linked files found.\n`;
-			}
+/**
+ * A note that links to the active file
+ */
+interface BacklinkEntry {
+	file: TFile;
+	// The whole note, or the paragraphs mentioning the active file
+	content: string;
+	// Number of links to the active file in this note
+	mentions: number;
+	// Whether only the paragraphs around the mentions are included
+	paragraphsOnly: boolean;
+	properties?: string;
+}
 
-			prompt += `===== [Linked Files End] =====\n`;
+/**
+ * A link that could not be resolved to a file in the vault
+ */
+interface UnresolvedLink {
+	// Link text as written, without the alias
+	link: string;
+	// Basename of the file containing the link
+	source: string;
+	// Why the link could not be resolved, if the file exists
+	reason?: string;
+}
 
-			// Output the prompt based on the selected output option
-			await this.outputPrompt(prompt);
-		} catch (error) {
-			console.error("Error generating LLM prompt:", error);
-			new Notice(`Error: ${error.message}`);
-		}
-	}
+/**
+ * Text selected in the editor, used as the main content instead of the whole file
+ */
+interface SelectionScope {
+	file: TFile;
+	// Full editor content the offsets refer to
+	fileContent: string;
+	start: number;
+	end: number;
+}
 
-	async outputPrompt(promptContent: string) {
-		switch (this.settings.outputOption) {
-			case "clipboard":
-				await navigator.clipboard.writeText(promptContent);
-				new Notice("LLM Context prompt copied to clipboard");
-				break;
+/**
+ * A file of the main content
+ */
+interface MainFileEntry {
+	file: TFile;
+	content: string;
+	// Set when the content is a selection rather than the whole file
+	selection?: { headingPath: string[] };
+	properties?: string;
+}
 
-			case "file":
-				const fileName = this.settings.outputFileName || "LLMPrompt.md";
-				await this.app.vault.create(fileName, promptContent);
-				new Notice(`LLM Context prompt saved to ${fileName}`);
-				break;
+/**
+ * A file (or excerpt of a file) whose links are followed when collecting
+ * linked files
+ */
+interface LinkRoot {
+	file: TFile;
+	// Basenames of the files the root was reached through, ending with the
+	// main file
+	via: string[];
+	excerpt?: Excerpt;
+}
 
-			case "modal":
-				new PromptDisplayModal(this.app, promptContent).open();
-				break;
-		}
-	}
+/**
+ * A file (or excerpt of a file) whose content was expanded inline into the
+ * main content because it is embedded with ![[...]]
+ */
+interface InlineEmbed {
+	file: TFile;
+	excerpt?: Excerpt;
+}
 
-	async loadSettings() {
-		this.settings = Object.assign(
-			{},
-			DEFAULT_SETTINGS,
-			await this.loadData()
-		);
-	}
+/**
+ * The parts a prompt is rendered from
+ */
+interface PromptContext {
+	// System prompt with its variables expanded
+	system: string;
+	instruction: string;
+	mainFiles: MainFileEntry[];
+	linkedFiles: LinkedFileEntry[];
+	backlinks: BacklinkEntry[];
+	unresolvedLinks: UnresolvedLink[];
+	excludedFiles: ExcludedFile[];
+	// Set when linked files were trimmed or dropped to fit the token budget
+	truncation?: TruncationSummary;
+}
 
-	async saveSettings() {
-		await this.saveData(this.settings);
-		// Re-register commands to ensure they're up to date with any template changes
-		this.registerCommands();
-	}
+interface TruncationSummary {
+	budget: number;
+	// Estimated tokens of the prompt before truncation
+	originalTokens: number;
+	trimmed: TruncatedFile[];
+	dropped: TruncatedFile[];
+}
 
-	// Register commands for all templates
-	registerCommands() {
-		// Clear existing commands
-		this.commands = [];
+interface TruncatedFile {
+	entry: LinkedFileEntry | BacklinkEntry;
+	// Estimated tokens of the full file block
+	tokens: number;
+	// Estimated tokens kept, for trimmed files
+	keptTokens?: number;
+}
 
-		// Add a command for each template
-		Object.keys(this.settings.instructionTemplates).forEach(
-			(templateKey) => {
-				this.addCommand({
-					id: `generate-llm-context-${templateKey}`,
-					name: `Generate LLM Context (${templateKey})`,
-					callback: () => this.generateLLMPrompt(templateKey),
-				});
-			}
-		);
-	}
+interface LinkCollection {
+	linkedFiles: LinkedFileEntry[];
+	unresolvedLinks: UnresolvedLink[];
+	excludedFiles: ExcludedFile[];
 }
 
 /**
- * Modal for entering a custom instruction
+ * A linked file left out by the exclusion rules, listed by name only
  */
-class CustomInstructionModal extends Modal {
-	private callback: (instruction: string) => void;
-	private instructionText: string = "";
+interface ExcludedFile {
+	file: TFile;
+	// Basename of the file containing the link
+	source: string;
+	// Which rule excluded the file, e.g. `folder "Private"`
+	reason: string;
+}
 
-	constructor(app: App, callback: (instruction: string) => void) {
-		super(app);
-		this.callback = callback;
-	}
+// Sections of the prompt, in the order they appear
+type SectionKey =
+	| "system"
+	| "instruction"
+	| "mainContent"
+	| "linkedFiles"
+	| "backlinks"
+	| "unresolvedLinks"
+	| "excludedFiles"
+	| "truncationSummary";
 
-	onOpen() {
-		const { contentEl } = this;
-		contentEl.createEl("h2", { text: "Enter Custom Instruction" });
+type PromptFormatId = "delimiter" | "xml" | "markdown" | "json";
 
-		const textareaEl = contentEl.createEl("textarea", {
-			placeholder: "Enter your custom instruction for the LLM...",
-		});
-		textareaEl.style.width = "100%";
-		textareaEl.style.height = "200px";
-		textareaEl.style.marginBottom = "20px";
+/**
+ * A section of the prompt, independent of the output format. A section holds
+ * text, a list of items, or a list of files.
+ */
+interface PromptSection {
+	key: SectionKey;
+	text?: string;
+	items?: string[];
+	files?: PromptFile[];
+	// Shown instead of an empty list of files
+	emptyText?: string;
+}
 
-		textareaEl.addEventListener("input", () => {
-			this.instructionText = textareaEl.value;
-		});
+interface PromptFile {
+	name: string;
+	fields: PromptField[];
+	content: string;
+}
 
-		new Setting(contentEl)
-			.addButton((btn) =>
-				btn
-					.setButtonText("Cancel")
-					.setCta()
-					.onClick(() => {
-						this.close();
-					})
-			)
-			.addButton((btn) =>
-				btn
-					.setButtonText("Generate")
-					.setCta()
-					.onClick(() => {
-						this.callback(this.instructionText);
-						this.close();
-					})
-			);
-	}
+interface PromptField {
+	// Identifier used by structured formats, e.g. "linkDistance"
+	key: string;
+	// Label used by text formats, e.g. "Link Distance"
+	label: string;
+	value: string;
+}
 
-	onClose() {
-		const { contentEl } = this;
-		contentEl.empty();
-	}
+/**
+ * Explanation of a section for the system instruction. For sections of files,
+ * `file` is an example file showing the fields each file has.
+ */
+interface SectionGuide {
+	title: string;
+	description: string;
+	file?: PromptFile;
 }
 
-class PromptDisplayModal extends Modal {
-	private promptContent: string;
+/**
+ * A way of laying out the prompt: how sections and files are marked, how the
+ * layout is explained to the model, and how a rendered prompt is split back
+ * into sections for display
+ */
+interface PromptFormat {
+	id: PromptFormatId;
+	name: string;
+	render(sections: PromptSection[]): string;
+	renderFile(file: PromptFile): string;
+	// Markers around notes embedded inline in the main content
+	embedStart(label: string): string;
+	embedEnd(label: string): string;
+	// Explanation of the layout, included in the system instruction
+	describeStructure(): string;
+	parseSections(prompt: string): Partial<Record<SectionKey, string>>;
+	// Highlight the markers in HTML-escaped prompt text
+	highlight(html: string): string;
+}
 
-	constructor(app: App, promptContent: string) {
-		super(app);
-		this.promptContent = promptContent;
-	}
+const SYSTEM_INTRO = `You are analyzing content from an Obsidian vault.
+You must refrain from inventing details.`;
 
-	onOpen() {
-		// Make the modal wider
-		const modalEl = this.contentEl.parentElement as HTMLElement;
-		if (modalEl) {
-			modalEl.style.width = "80vw";
-			modalEl.style.maxWidth = "1000px"; // Set a max-width to avoid too wide modals on large screens
-		}
+// {{structure}} is replaced by the description of the prompt format in use
+const DEFAULT_SYSTEM_PROMPT = `${SYSTEM_INTRO}
 
-		const { contentEl } = this;
+{{structure}}`;
 
-		contentEl.createEl("h2", { text: "Generated LLM Prompt" });
+const DEFAULT_SYSTEM_PROMPT_NAME = "Default";
 
-		// Parse prompt sections
-		const promptSections = this.parsePromptSections(this.promptContent);
+// Resolves a {{name}} or {{name:argument}} variable, or undefined if unknown
+type VariableResolver = (name: string, argument?: string) => string | undefined;
 
-		// Create tabs container
-		const tabsContainer = contentEl.createDiv();
-		tabsContainer.style.display = "flex";
-		tabsContainer.style.flexWrap = "wrap";
-		tabsContainer.style.borderBottom =
-			"1px solid var(--background-modifier-border)";
-		tabsContainer.style.marginBottom = "15px";
-		tabsContainer.style.gap = "4px";
+const SECTION_KEYS: SectionKey[] = [
+	"system",
+	"instruction",
+	"mainContent",
+	"linkedFiles",
+	"backlinks",
+	"unresolvedLinks",
+	"excludedFiles",
+	"truncationSummary",
+];
 
-		// Create content container
-		const contentContainer = contentEl.createDiv();
-		contentContainer.style.maxHeight = "70vh";
-		contentContainer.style.overflow = "auto";
+const SECTION_GUIDES: { [key in SectionKey]: SectionGuide } = {
+	system: {
+		title: "System",
+		description: "",
+	},
+	instruction: {
+		title: "Instruction",
+		description: `This optional section contains specific instructions for you about what to do with the content.
+If present, follow these instructions carefully.`,
+	},
+	mainContent: {
+		title: "Main Content",
+		description: `This section contains the primary document you should focus on.
+Treat the document as the principal source of truth. Base all primary summaries, analyses, and outputs on this file first.
+Notes embedded in the document with ![[filename]] may be expanded inline, between {embedStart} and {embedEnd} markers, exactly where they appear to the reader. Treat embedded content as part of the document.
+When the prompt is built from a folder, tag or search, this section may contain several documents. Treat them as equally important.`,
+		file: {
+			name: "{filename}",
+			fields: [
+				{
+					key: "path",
+					label: "File Path",
+					value: "{path of the file in the vault}",
+				},
+				{
+					key: "excerpt",
+					label: "Excerpt",
+					value: "{optional, only present when just a selection of the file is included}",
+				},
+				{
+					key: "headingPath",
+					label: "Heading Path",
+					value: "{optional, the headings the selection is located under, from outermost to innermost}",
+				},
+				{
+					key: "properties",
+					label: "Properties",
+					value: "{optional, the frontmatter properties of the file}",
+				},
+			],
+			content: "{content of the main file}",
+		},
+	},
+	linkedFiles: {
+		title: "Linked Files",
+		description: `This section contains supporting documents that are referenced from the main content using [[filename]] or [text](filename.md) syntax in Obsidian.
+Whenever you encounter a reference in the main content in the format [[filename]], consult the corresponding file in the **Linked Files** section.
+Extract any relevant information from that file and integrate it into your overall analysis or response—even if its update status is uncertain.
 
-		// Apply tab styles function
-		const applyTabStyle = (tab: HTMLElement, isActive: boolean) => {
-			tab.style.backgroundColor = isActive
-				? "var(--background-primary)"
-				: "var(--background-secondary)";
-			tab.style.color = isActive
-				? "var(--text-accent)"
-				: "var(--text-muted)";
-			tab.style.fontWeight = isActive ? "bold" : "normal";
-			tab.style.zIndex = isActive ? "2" : "1";
-			tab.style.borderBottom = isActive
-				? "1px solid var(--background-primary)"
-				: "none";
-		};
+Linked files may also be linked indirectly, through other linked files. Each file is labelled with its link distance (1 = linked directly from the main content) and the chain of files through which it was reached.
+
+Links to a specific heading or block, like [[filename#heading]] or [[filename#^block-id]], include only that heading (with its subheadings) or block. Such files are marked with an excerpt and are partial: the rest of the file is intentionally omitted.
+
+Linked files that are not Markdown notes are marked with their file type and converted to text: canvases as an outline of their cards and connections, CSV files as a table, code files as a code block, PDFs as their extracted text, and images as their alt text (or their base64 data in JSON).`,
+		file: {
+			name: "{filename}",
+			fields: [
+				{
+					key: "path",
+					label: "File Path",
+					value: "{path of the file in the vault}",
+				},
+				{
+					key: "fileType",
+					label: "File Type",
+					value: "{optional, only present for files that are not Markdown notes, e.g. PDF}",
+				},
+				{
+					key: "linkDistance",
+					label: "Link Distance",
+					value: "{hops} ({main file} → ... → {filename}), or how the file was included if not through a link, e.g. 'added manually' for files the user added to the context by hand",
+				},
+				{
+					key: "excerpt",
+					label: "Excerpt",
+					value: "{optional, only present when the link points to a heading or block}",
+				},
+				{
+					key: "properties",
+					label: "Properties",
+					value: "{optional, the frontmatter properties of the file}",
+				},
+			],
+			content: "{content of the linked file}",
+		},
+	},
+	backlinks: {
+		title: "Backlinks",
+		description: `This optional section contains notes that link to the main file, i.e. notes in which the main file is mentioned.
+They show how the subject of the main file is referred to elsewhere in the vault and provide additional context about it.
+Depending on the settings, each note is included either in full or as only the paragraphs that mention the main file (separated by ---).`,
+		file: {
+			name: "{filename}",
+			fields: [
+				{
+					key: "path",
+					label: "File Path",
+					value: "{path of the file in the vault}",
+				},
+				{
+					key: "mentions",
+					label: "Mentions",
+					value: "{number of links to the main file}",
+				},
+			],
+			content:
+				"{content of the note, or the paragraphs mentioning the main file}",
+		},
+	},
+	unresolvedLinks: {
+		title: "Unresolved Links",
+		description: `This optional section lists links that do not point to any file in the vault, together with the file they appear in.
+Do not assume anything about the content of these links.`,
+	},
+	excludedFiles: {
+		title: "Excluded Files",
+		description: `This optional section lists files that are linked from the included content but were deliberately left out by the user, together with the file linking to them.
+Only their names are given. Do not assume anything about their content.`,
+	},
+	truncationSummary: {
+		title: "Truncation Summary",
+		description: `This optional section is present when linked files were shortened or left out to fit the prompt into a token budget.
+It lists the files that were trimmed (only the beginning is included) and dropped (not included at all).
+Do not draw conclusions from the absence of content in these files.`,
+	},
+};
 
-		// First create the "All Content" tab and section
-		const allTab = tabsContainer.createDiv();
-		allTab.textContent = "All Content";
-		allTab.style.padding = "8px 12px";
-		allTab.style.cursor = "pointer";
-		allTab.style.borderRadius = "4px 4px 0 0";
-		allTab.style.border = "1px solid var(--background-modifier-border)";
-		allTab.style.borderBottom = "none";
-		allTab.style.marginBottom = "-1px";
-
-		// Create the All Content div and pre
-		const allContent = contentContainer.createDiv();
-		const allPre = allContent.createEl("pre");
-		allPre.style.whiteSpace = "pre-wrap";
-		allPre.style.padding = "1rem";
-		allPre.style.margin = "0";
-		allPre.style.border = "1px solid var(--background-modifier-border)";
-		allPre.style.borderRadius = "4px";
-		allPre.style.backgroundColor = "var(--code-background)";
-		allPre.style.fontSize = "0.95em"; // Slightly smaller font for code
-		allPre.style.lineHeight = "1.5"; // Better line height for readability
+const DEFAULT_SETTINGS: LLMContextSettings = {
+	instructionTemplates: {
+		summarize: {
+			instruction:
+				"Please summarize the main points from this Markdown content and its linked references.",
+		},
+		review: {
+			instruction:
+				"Please review the following Markdown content and its linked references.",
+		},
+	},
+	templateFolder: "",
+	outputActions: ["clipboard"],
+	logNotePath: "LLM Context Log.md",
+	outputFileName: "LLMPrompt.md",
+	outputFolder: "",
+	outputConflict: "increment",
+	outputFrontmatter: false,
+	openOutputFile: false,
+	responseTarget: "note",
+	responseFolder: "",
+	llmProvider: "openai",
+	llmBaseUrl: "",
+	llmApiKey: "",
+	llmModel: "",
+	llmMaxTokens: 4096,
+	linkDepth: 1,
+	expandEmbeds: false,
+	tokenBudget: 0,
+	tokenEstimator: "approximate",
+	truncationPriority: "distance",
+	promptFormat: "delimiter",
+	systemPrompts: { [DEFAULT_SYSTEM_PROMPT_NAME]: DEFAULT_SYSTEM_PROMPT },
+	activeSystemPrompt: DEFAULT_SYSTEM_PROMPT_NAME,
+	previewBeforeGenerate: false,
+	backlinksMode: "off",
+	includeHeadingPath: true,
+	sourceRecursive: true,
+	sourceMainMode: "peers",
+	sourceOrder: "path",
+	frontmatterMode: "keep",
+	redactionEnabled: false,
+	redactionDetectors: ["comment", "callout", "secret", "email", "phone"],
+	redactionCalloutType: "private",
+	redactionRules: [],
+	exclusionRules: { folders: [], globs: [], tags: [], maxSizeKb: 0 },
+	includeAttachments: true,
+	csvRowLimit: 50,
+	historySize: 20,
+	showContextMenus: true,
+	showRibbonIcon: true,
+};
 
-		// Highlight sections in the All Content view
-		const highlightedContent = this.promptContent
-			.replace(
-				/(===== \[\w+( \w+)* (?:Start|END)\] =====)/gi,
-				'<span style="color:var(--text-accent);font-weight:bold;">$1</span>'
-			)
-			.replace(
-				/(File Name: [^\n]+)/g,
-				'<span style="color:var(--text-success);font-weight:bold;">$1</span>'
+/**
+ * Offline approximation of common BPE tokenizers: about one token per four
+ * characters of a word, and one token per punctuation mark or CJK character
+ */
+function approximateTokenCount(text: string): number {
+	const pieces =
+		text.match(
+			/[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]|[A-Za-z0-9\u00c0-\u024f]+|[^\sA-Za-z0-9]/g
+		) ?? [];
+
+	let tokens = 0;
+	for (const piece of pieces) {
+		tokens += /^[A-Za-z0-9\u00c0-\u024f]+$/.test(piece)
+			? Math.ceil(piece.length / 4)
+			: 1;
+	}
+	return tokens;
+}
+
+const BUILTIN_TOKEN_ESTIMATORS: TokenEstimator[] = [
+	{
+		id: "approximate",
+		name: "Approximate (words and punctuation)",
+		estimate: approximateTokenCount,
+	},
+	{
+		id: "characters",
+		name: "Characters / 4",
+		estimate: (text) => Math.ceil(text.length / 4),
+	},
+];
+
+// Files that can't be trimmed to at least this many tokens are dropped instead
+const MIN_TRIMMED_FILE_TOKENS = 100;
+
+// Languages of the code files included in a fenced code block, by extension
+const CODE_LANGUAGES: { [extension: string]: string } = {
+	js: "javascript",
+	mjs: "javascript",
+	cjs: "javascript",
+	jsx: "jsx",
+	ts: "typescript",
+	tsx: "tsx",
+	py: "python",
+	rb: "ruby",
+	go: "go",
+	rs: "rust",
+	java: "java",
+	kt: "kotlin",
+	swift: "swift",
+	c: "c",
+	h: "c",
+	cpp: "cpp",
+	hpp: "cpp",
+	cs: "csharp",
+	php: "php",
+	sh: "bash",
+	bash: "bash",
+	zsh: "zsh",
+	ps1: "powershell",
+	sql: "sql",
+	r: "r",
+	lua: "lua",
+	scala: "scala",
+	dart: "dart",
+	json: "json",
+	yaml: "yaml",
+	yml: "yaml",
+	toml: "toml",
+	xml: "xml",
+	html: "html",
+	css: "css",
+	scss: "scss",
+};
+
+const IMAGE_MIME_TYPES: { [extension: string]: string } = {
+	png: "image/png",
+	jpg: "image/jpeg",
+	jpeg: "image/jpeg",
+	gif: "image/gif",
+	webp: "image/webp",
+	svg: "image/svg+xml",
+	bmp: "image/bmp",
+	avif: "image/avif",
+};
+
+const BUILTIN_ATTACHMENT_HANDLERS: AttachmentHandler[] = [
+	{
+		type: "Canvas",
+		extensions: ["canvas"],
+		render: async (app, file) =>
+			renderCanvasOutline(JSON.parse(await app.vault.read(file))),
+	},
+	{
+		type: "CSV",
+		extensions: ["csv", "tsv"],
+		render: async (app, file, options) =>
+			renderCsvTable(
+				await app.vault.read(file),
+				file.extension === "tsv" ? "\t" : undefined,
+				options.csvRowLimit
+			),
+	},
+	{
+		type: "Code",
+		extensions: Object.keys(CODE_LANGUAGES),
+		render: async (app, file) => {
+			const content = (await app.vault.read(file)).replace(/\n$/, "");
+			const fence = codeFence(content);
+			return `${fence}${
+				CODE_LANGUAGES[file.extension]
+			}\n${content}\n${fence}`;
+		},
+	},
+	{
+		type: "PDF",
+		extensions: ["pdf"],
+		render: async (app, file) =>
+			extractPdfText(await app.vault.readBinary(file)),
+	},
+	{
+		type: "Image",
+		extensions: Object.keys(IMAGE_MIME_TYPES),
+		render: async (app, file, options) => {
+			// Structured output can carry the image itself
+			if (options.format.id === "json") {
+				return `data:${
+					IMAGE_MIME_TYPES[file.extension]
+				};base64,${arrayBufferToBase64(
+					await app.vault.readBinary(file)
+				)}`;
+			}
+			return options.altText
+				? `Image, not included. Alt text: ${options.altText}`
+				: "Image, not included. No alt text given.";
+		},
+	},
+];
+
+// Built-in redaction detectors, in the order they are applied. Comments and
+// callouts go first, so sensitive text inside them is redacted as a whole.
+// The callout detector depends on the configured callout type.
+const REDACTION_DETECTORS: {
+	[id in RedactionDetectorId]: (calloutType: string) => RedactionDetector;
+} = {
+	comment: () => ({
+		name: "Obsidian comments",
+		label: "COMMENT",
+		pattern: /%%[\s\S]*?%%/g,
+	}),
+	callout: (calloutType) => ({
+		name: `[!${calloutType}] callouts`,
+		label: "CALLOUT",
+		pattern: new RegExp(
+			`^>[ \\t]*\\[!${escapeRegExp(
+				calloutType
+			)}\\][^\\n]*(?:\\n>[^\\n]*)*`,
+			"gim"
+		),
+	}),
+	secret: () => ({
+		name: "Secrets and tokens",
+		label: "SECRET",
+		// Private keys, well-known token shapes (OpenAI/Anthropic, GitHub, AWS,
+		// Slack, Google, JWT) and the values of key = value assignments
+		pattern:
+			/-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----|\b(?:sk-[A-Za-z0-9_-]{20,}|gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,}|AKIA[0-9A-Z]{16}|xox[abprs]-[A-Za-z0-9-]{10,}|AIza[0-9A-Za-z_-]{35}|eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,})\b|\b(?:api[_-]?key|secret|token|password|passwd)\b["']?[ \t]*[:=][ \t]*["']?([^\s"'`]{8,})/gi,
+	}),
+	email: () => ({
+		name: "Email addresses",
+		label: "EMAIL",
+		pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+	}),
+	phone: () => ({
+		name: "Phone numbers",
+		label: "PHONE",
+		// A number with a country code (+44 20 7946 0958), a bracketed area
+		// code ((555) 123-4567) or digits in groups (555-123-4567), so order
+		// numbers, timestamps and other plain digit runs aren't matched
+		pattern:
+			/\+\d{1,3}(?:[ .-]?\(?\d{1,4}\)?){2,5}|\(\d{2,5}\)[ .-]?\d{2,4}(?:[ .-]?\d{2,4}){1,3}|\b\d{2,4}(?:[ .-]\d{2,4}){2,4}\b/g,
+		// 8 to 15 digits, and not a date like 2024-01-15 or an IP address
+		accept: (value) => {
+			const digits = value.replace(/\D/g, "").length;
+			return (
+				digits >= 8 &&
+				digits <= 15 &&
+				!/^\d{4}[-./]\d{2}[-./]\d{2}/.test(value) &&
+				!/^\d{1,3}(?:\.\d{1,3}){3}$/.test(value)
 			);
-		allPre.innerHTML = this.cleanupNestedMarkers(highlightedContent);
+		},
+		standalone: true,
+	}),
+};
 
-		// Variables to track active tab/content
-		let activeTab = allTab;
-		let activeContent = allContent;
+const OUTPUT_ACTION_NAMES: { [action in OutputAction]: string } = {
+	clipboard: "Copy to clipboard",
+	file: "Save to file",
+	modal: "Display in modal",
+	send: "Send to LLM",
+	cursor: "Insert at cursor",
+	log: "Append to log note",
+};
 
-		// Start by making All Content active
-		applyTabStyle(allTab, true);
-		allContent.style.display = "block";
+const OUTPUT_ACTIONS = Object.keys(OUTPUT_ACTION_NAMES) as OutputAction[];
 
-		// Define the section order and their display names
-		const sectionOrder = [
-			{ key: "instruction", displayName: "Instruction" },
-			{ key: "mainContent", displayName: "Main Content" },
-			{ key: "linkedFiles", displayName: "Linked Files" },
-		];
+const REDACTION_DETECTOR_IDS: RedactionDetectorId[] = [
+	"comment",
+	"callout",
+	"secret",
+	"email",
+	"phone",
+];
 
-		// Create tabs for each section in the defined order
-		sectionOrder.forEach(({ key, displayName }) => {
-			const content = promptSections[key];
-			if (!content) return; // Skip if section doesn't exist
+export default class LLMContextPlugin extends Plugin {
+	settings: LLMContextSettings;
+	// Command ids of the templates whose commands are registered, by
+	// template key
+	templateCommandIds: { [templateKey: string]: string } = {};
+	tokenEstimators: { [id: string]: TokenEstimator } = {};
+	attachmentHandlers: { [extension: string]: AttachmentHandler } = {};
+	// Templates stored as notes in the template folder
+	vaultTemplates: { [key: string]: InstructionTemplate } = {};
+	ribbonIconEl: HTMLElement | null = null;
+	// Save the settings and reload the templates stored as notes once
+	// changes pause, like typing in a settings field
+	requestSaveSettings = debounce(() => this.saveSettings(), 1000, true);
+	requestLoadVaultTemplates = debounce(
+		() => this.loadVaultTemplates(),
+		1000,
+		true
+	);
+	// Generated prompts, newest first
+	promptHistory: PromptHistoryEntry[] = [];
+	// History entries by the prompt they were added for, to update them when
+	// the prompt is edited
+	private historyEntries = new WeakMap<BuiltPrompt, PromptHistoryEntry>();
 
-			// Create tab
-			const tab = tabsContainer.createDiv();
-			tab.textContent = displayName;
-			tab.style.padding = "8px 12px";
-			tab.style.cursor = "pointer";
-			tab.style.borderRadius = "4px 4px 0 0";
-			tab.style.border = "1px solid var(--background-modifier-border)";
-			tab.style.borderBottom = "none";
-			tab.style.marginBottom = "-1px";
+	async onload() {
+		await this.loadSettings();
 
-			// Apply initial inactive style
-			applyTabStyle(tab, false);
-
-			// Create content
-			const contentDiv = contentContainer.createDiv();
-			contentDiv.style.display = "none"; // All sections hidden initially except All Content
-
-			const pre = contentDiv.createEl("pre");
-			pre.style.whiteSpace = "pre-wrap";
-			pre.style.padding = "1rem";
-			pre.style.margin = "0";
-			pre.style.border = "1px solid var(--background-modifier-border)";
-			pre.style.borderRadius = "4px";
-			pre.style.backgroundColor = "var(--code-background)";
-			pre.style.fontSize = "0.95em"; // Slightly smaller font for code
-			pre.style.lineHeight = "1.5"; // Better line height for readability
-
-			// Format the content for better display
-			let formattedContent = content;
-
-			// If it's main content or linked files, highlight file names
-			if (key === "mainContent" || key === "linkedFiles") {
-				formattedContent = content
-					.replace(
-						/(File Name: [^\n]+)/g,
-						'<span style="color:var(--text-success);font-weight:bold;">$1</span>'
-					)
-					.replace(
-						/(===== \[File (?:Start|End)\] =====)/g,
-						'<span style="color:var(--text-accent);">$1</span>'
-					);
-			}
+		BUILTIN_TOKEN_ESTIMATORS.forEach((estimator) =>
+			this.registerTokenEstimator(estimator)
+		);
+		BUILTIN_ATTACHMENT_HANDLERS.forEach((handler) =>
+			this.registerAttachmentHandler(handler)
+		);
 
-			pre.innerHTML = this.cleanupNestedMarkers(formattedContent);
+		// Keep the positions of responses streaming into editors in place
+		this.registerEditorExtension(responsePositions);
 
-			// Tab click event
-			tab.addEventListener("click", () => {
-				applyTabStyle(activeTab, false);
-				activeContent.style.display = "none";
+		// Register commands for each instruction template
+		this.registerCommands();
 
-				applyTabStyle(tab, true);
-				contentDiv.style.display = "block";
+		// Load the templates stored as notes once the vault is indexed, and
+		// reload them when they change
+		this.app.workspace.onLayoutReady(() => {
+			this.loadVaultTemplates();
+
+			const onChange = (file: TAbstractFile, oldPath?: string) => {
+				if (
+					this.isInTemplateFolder(file.path) ||
+					(oldPath && this.isInTemplateFolder(oldPath))
+				) {
+					this.requestLoadVaultTemplates();
+				}
+			};
+			this.registerEvent(this.app.vault.on("create", onChange));
+			this.registerEvent(this.app.vault.on("modify", onChange));
+			this.registerEvent(this.app.vault.on("delete", onChange));
+			this.registerEvent(this.app.vault.on("rename", onChange));
+		});
 
-				activeTab = tab;
-				activeContent = contentDiv;
-			});
+		// Add command to generate with custom instruction
+		this.addCommand({
+			id: "generate-llm-context-custom",
+			name: "Generate LLM Context (Custom Instruction)",
+			callback: async () => {
+				const modal = new CustomInstructionModal(
+					this.app,
+					async (instruction) => {
+						if (instruction) {
+							await this.generateLLMPrompt("custom", instruction);
+						}
+					}
+				);
+				modal.open();
+			},
+		});
+
+		// Add command to generate from the selection with custom instruction
+		this.addCommand({
+			id: "generate-llm-context-selection-custom",
+			name: "Generate LLM Context from Selection (Custom Instruction)",
+			editorCheckCallback: (checking, editor, ctx) => {
+				const selection = getSelectionScope(editor, ctx);
+				if (!selection) {
+					return false;
+				}
+
+				if (!checking) {
+					new CustomInstructionModal(
+						this.app,
+						async (instruction) => {
+							if (instruction) {
+								await this.generateLLMPrompt(
+									"custom",
+									instruction,
+									getFileSource(selection.file, selection)
+								);
+							}
+						}
+					).open();
+				}
+				return true;
+			},
 		});
 
-		// Add click handler for the All Content tab
-		allTab.addEventListener("click", () => {
-			applyTabStyle(activeTab, false);
-			activeContent.style.display = "none";
+		// Add command to generate with the template named in the note's
+		// frontmatter
+		this.addCommand({
+			id: "generate-llm-context-note-template",
+			name: "Generate LLM Context (Note's Template)",
+			callback: () => {
+				const activeFile = this.app.workspace.getActiveFile();
+				if (!activeFile) {
+					new Notice("No active file selected");
+					return;
+				}
 
-			applyTabStyle(allTab, true);
-			allContent.style.display = "block";
+				const templateKey = this.getNoteTemplateKey(activeFile);
+				if (templateKey) {
+					this.generateLLMPrompt(templateKey);
+					return;
+				}
 
-			activeTab = allTab;
-			activeContent = allContent;
+				this.chooseTemplate(
+					`No ${FRONTMATTER_KEYS.template} property naming a template, choose a template...`,
+					(templateKey) => this.generateWithTemplate(templateKey)
+				);
+			},
 		});
 
-		const buttonContainer = contentEl.createEl("div");
-		buttonContainer.style.marginTop = "1rem";
-		buttonContainer.style.display = "flex";
-		buttonContainer.style.justifyContent = "space-between";
+		// Add commands to generate from the notes of a folder, tag or search
+		this.addCommand({
+			id: "generate-llm-context-folder",
+			name: "Generate LLM Context from Folder",
+			callback: () => {
+				new ListSuggestModal(
+					this.app,
+					this.app.vault
+						.getAllLoadedFiles()
+						.filter(
+							(file): file is TFolder => file instanceof TFolder
+						),
+					(folder) => folder.path,
+					(folder) =>
+						this.generateFromFiles(
+							`folder "${folder.path}"`,
+							getFolderFiles(
+								folder,
+								this.settings.sourceRecursive
+							)
+						),
+					"Choose a folder..."
+				).open();
+			},
+		});
 
-		const copyButton = buttonContainer.createEl("button", {
-			text: "Copy to Clipboard",
+		this.addCommand({
+			id: "generate-llm-context-tag",
+			name: "Generate LLM Context from Tag",
+			callback: () => {
+				new ListSuggestModal(
+					this.app,
+					getVaultTags(this.app),
+					(tag) => tag,
+					(tag) =>
+						this.generateFromFiles(
+							`tag ${tag}`,
+							getTagFiles(this.app, tag)
+						),
+					"Choose a tag..."
+				).open();
+			},
 		});
-		copyButton.style.padding = "8px 16px";
-		copyButton.style.backgroundColor = "var(--interactive-accent)";
-		copyButton.style.color = "var(--text-on-accent)";
-		copyButton.style.border = "none";
-		copyButton.style.borderRadius = "4px";
-		copyButton.style.cursor = "pointer";
 
-		copyButton.addEventListener("click", async () => {
-			await navigator.clipboard.writeText(this.promptContent);
-			new Notice("Prompt copied to clipboard");
+		this.addCommand({
+			id: "generate-llm-context-search",
+			name: "Generate LLM Context from Search",
+			callback: async () => {
+				const query = await new TextInputModal(
+					this.app,
+					"Enter Search Query",
+					'Words, "a phrase", [property] or [property:value]',
+					"Search",
+					(text) => (text === "" ? "Enter a search query" : undefined)
+				).open();
+
+				if (query) {
+					this.generateFromFiles(
+						`search "${query}"`,
+						await getQueryFiles(this.app, query)
+					);
+				}
+			},
 		});
 
-		const closeButton = buttonContainer.createEl("button", {
-			text: "Close",
+		this.addCommand({
+			id: "show-llm-context-history",
+			name: "Show LLM Context History",
+			callback: () => new PromptHistoryModal(this.app, this).open(),
 		});
-		closeButton.style.padding = "8px 16px";
-		closeButton.style.backgroundColor = "var(--background-modifier-border)";
-		closeButton.style.color = "var(--text-normal)";
-		closeButton.style.border = "none";
-		closeButton.style.borderRadius = "4px";
-		closeButton.style.cursor = "pointer";
 
-		closeButton.addEventListener("click", () => {
-			this.close();
+		// Add the chat view and a command to start a chat
+		this.registerView(CHAT_VIEW_TYPE, (leaf) => new ChatView(leaf, this));
+
+		this.addCommand({
+			id: "chat-llm-context",
+			name: "Chat about LLM Context",
+			callback: () => {
+				this.chooseTemplate(
+					"Choose a template to start the chat...",
+					(templateKey) => {
+						if (templateKey !== "custom") {
+							this.startChat(templateKey);
+							return;
+						}
+
+						new CustomInstructionModal(
+							this.app,
+							async (instruction) => {
+								if (instruction) {
+									await this.startChat("custom", instruction);
+								}
+							}
+						).open();
+					},
+					this.app.workspace.getActiveFile()
+				);
+			},
 		});
+
+		// Add entries to the menus of notes, folders and tab headers, of
+		// several selected files and of the editor
+		this.registerEvent(
+			this.app.workspace.on("file-menu", (menu, file) => {
+				if (!this.settings.showContextMenus) {
+					return;
+				}
+
+				if (file instanceof TFile && file.extension === "md") {
+					this.addTemplateMenuItem(
+						menu,
+						"Generate LLM Context",
+						(templateKey) =>
+							this.generateWithTemplate(
+								templateKey,
+								getFileSource(file)
+							),
+						file
+					);
+				} else if (file instanceof TFolder) {
+					menu.addItem((item) =>
+						item
+							.setTitle("Generate LLM Context from Folder")
+							.setIcon("bot")
+							.setSection("action")
+							.onClick(() =>
+								this.generateFromFiles(
+									`folder "${file.path}"`,
+									getFolderFiles(
+										file,
+										this.settings.sourceRecursive
+									)
+								)
+							)
+					);
+				}
+			})
+		);
+
+		this.registerEvent(
+			this.app.workspace.on("files-menu", (menu, files) => {
+				if (!this.settings.showContextMenus) {
+					return;
+				}
+
+				// The selected notes and the notes in the selected folders,
+				// combined into one prompt
+				const notes: TFile[] = [];
+				for (const file of files) {
+					const itemNotes =
+						file instanceof TFolder
+							? getFolderFiles(
+									file,
+									this.settings.sourceRecursive
+							  )
+							: file instanceof TFile && file.extension === "md"
+							? [file]
+							: [];
+					for (const note of itemNotes) {
+						if (!notes.includes(note)) {
+							notes.push(note);
+						}
+					}
+				}
+				if (notes.length === 0) {
+					return;
+				}
+
+				menu.addItem((item) =>
+					item
+						.setTitle(
+							`Generate LLM Context from ${files.length} Items`
+						)
+						.setIcon("bot")
+						.setSection("action")
+						.onClick(() =>
+							this.generateFromFiles(
+								`${files.length} selected items`,
+								notes
+							)
+						)
+				);
+			})
+		);
+
+		this.registerEvent(
+			this.app.workspace.on("editor-menu", (menu, editor, info) => {
+				if (!this.settings.showContextMenus || !info.file) {
+					return;
+				}
+
+				const selection = getSelectionScope(editor, info);
+				const source = getFileSource(info.file, selection ?? undefined);
+				this.addTemplateMenuItem(
+					menu,
+					selection
+						? "Generate LLM Context from Selection"
+						: "Generate LLM Context",
+					(templateKey) =>
+						this.generateWithTemplate(templateKey, source),
+					info.file
+				);
+			})
+		);
+
+		this.updateRibbonIcon();
+
+		// Add settings tab
+		this.addSettingTab(new LLMContextSettingTab(this.app, this));
 	}
 
 	/**
-	 * Parse the prompt content into sections
+	 * Add or remove the ribbon icon, which generates a prompt for the active
+	 * file after choosing a template
+	 */
+	updateRibbonIcon() {
+		if (this.settings.showRibbonIcon && !this.ribbonIconEl) {
+			this.ribbonIconEl = this.addRibbonIcon(
+				"bot",
+				"Generate LLM Context",
+				() =>
+					this.chooseTemplate(
+						"Choose a template for the active file...",
+						(templateKey) => this.generateWithTemplate(templateKey),
+						this.app.workspace.getActiveFile()
+					)
+			);
+			this.ribbonIconEl.addClass("llm-context-ribbon-class");
+		} else if (!this.settings.showRibbonIcon && this.ribbonIconEl) {
+			this.ribbonIconEl.remove();
+			this.ribbonIconEl = null;
+		}
+	}
+
+	/**
+	 * Add a menu item with a submenu of the templates. Where submenus aren't
+	 * available, the item opens the template chooser instead.
 	 */
-	private parsePromptSections(content: string): Record<string, string> {
-		const sections: Record<string, string> = {};
+	addTemplateMenuItem(
+		menu: Menu,
+		title: string,
+		onChoose: (templateKey: string) => void,
+		file: TFile
+	) {
+		menu.addItem((item) => {
+			item.setTitle(title).setIcon("bot").setSection("action");
+
+			const submenu = (item as SubmenuMenuItem).setSubmenu?.();
+			if (!submenu) {
+				item.onClick(() =>
+					this.chooseTemplate("Choose a template...", onChoose, file)
+				);
+				return;
+			}
 
-		// First, remove the SYSTEM section entirely from the content
-		let cleanedContent = content.replace(
-			/===== \[SYSTEM START\] =====\n[\s\S]*?===== \[SYSTEM END\] =====\n\n?/i,
-			""
+			for (const templateKey of this.getTemplateChoices(file)) {
+				submenu.addItem((templateItem) =>
+					templateItem
+						.setTitle(this.getTemplateChoiceName(templateKey, file))
+						.onClick(() => onChoose(templateKey))
+				);
+			}
+		});
+	}
+
+	onunload() {
+		// Save changes still waiting to be saved
+		this.requestSaveSettings.run();
+	}
+
+	/**
+	 * Generate a prompt from a source, or from the active file when no source
+	 * is given, and output it
+	 */
+	async generateLLMPrompt(
+		templateKey: string,
+		customInstruction?: string,
+		source?: ContextSource,
+		edits?: ContextEdits
+	) {
+		try {
+			const built = await this.buildPrompt(
+				templateKey,
+				customInstruction,
+				source,
+				undefined,
+				undefined,
+				edits
+			);
+			if (!built) {
+				return;
+			}
+
+			// Output the prompt based on the selected output option
+			await this.outputPrompt(
+				built.prompt,
+				built.format,
+				built.details,
+				built
+			);
+			await this.addToHistory(built, customInstruction);
+
+			const redactions = built.redactor ? built.redactor.getReport() : [];
+			if (redactions.length > 0) {
+				new Notice(
+					`Redacted ${redactions.length} sensitive value(s) from the prompt`
+				);
+			}
+		} catch (error) {
+			console.error("Error generating LLM prompt:", error);
+			new Notice(`Error: ${error.message}`);
+		}
+	}
+
+	/**
+	 * Add a generated prompt to the history, dropping the oldest entries
+	 * beyond the history size
+	 */
+	async addToHistory(built: BuiltPrompt, customInstruction?: string) {
+		if (this.settings.historySize <= 0) {
+			return;
+		}
+
+		const entry = this.createHistoryEntry(built, customInstruction);
+		this.historyEntries.set(built, entry);
+		this.promptHistory = [entry, ...this.promptHistory].slice(
+			0,
+			this.settings.historySize
 		);
+		await this.saveHistory();
+	}
 
-		// Extract INSTRUCTION section - if it exists
-		const instructionMatch = cleanedContent.match(
-			/===== \[INSTRUCTION START\] =====\n([\s\S]*?)===== \[INSTRUCTION END\] =====/i
+	/**
+	 * Replace the history entry of a prompt with the prompt as edited in the
+	 * prompt window, so viewing and re-running it give the prompt copied
+	 */
+	async updateHistoryEntry(
+		original: BuiltPrompt,
+		edited: BuiltPrompt,
+		instruction?: string
+	) {
+		const entry = this.historyEntries.get(original);
+		if (!entry || !this.promptHistory.includes(entry)) {
+			return;
+		}
+
+		// An edited instruction replaces the template's instruction. A custom
+		// instruction is kept, with its variables, unless a template was
+		// switched to "custom" and its instruction is used instead.
+		const { templateKey } = edited.details;
+		const customInstruction =
+			instruction ??
+			(templateKey !== "custom"
+				? undefined
+				: entry.templateKey === "custom"
+				? entry.customInstruction
+				: edited.context.instruction);
+
+		const updated: PromptHistoryEntry = {
+			...this.createHistoryEntry(edited, customInstruction),
+			timestamp: entry.timestamp,
+		};
+		this.historyEntries.set(original, updated);
+		this.promptHistory = this.promptHistory.map((other) =>
+			other === entry ? updated : other
 		);
-		if (instructionMatch) {
-			sections.instruction = instructionMatch[1];
+		await this.saveHistory();
+	}
+
+	/**
+	 * The history entry of a prompt, with what is needed to generate it again
+	 */
+	createHistoryEntry(
+		built: BuiltPrompt,
+		customInstruction?: string
+	): PromptHistoryEntry {
+		const { source, context, details, edits } = built;
+		const selection = source.selection;
+		return {
+			timestamp: Date.now(),
+			templateKey: details.templateKey,
+			customInstruction,
+			source: {
+				description: source.description,
+				mainFiles: source.mainFiles.map((file) => file.path),
+				otherFiles: source.otherFiles.map((file) => file.path),
+				selection: selection && {
+					path: selection.file.path,
+					start: selection.start,
+					end: selection.end,
+				},
+			},
+			files: getContextFiles(context).map((file) => ({
+				path: file.path,
+				mtime: file.stat.mtime,
+			})),
+			tokens: this.estimateTokens(built.prompt),
+			prompt: built.prompt,
+			promptFormat: built.format.id,
+			edits: {
+				...edits,
+				addedFiles: edits.addedFiles.map((file) => file.path),
+			},
+		};
+	}
+
+	/**
+	 * Path of the history file. The history is kept out of the settings, so
+	 * the prompts in it aren't written again on every settings change.
+	 */
+	getHistoryPath(): string {
+		const dir =
+			this.manifest.dir ??
+			`${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+		return normalizePath(`${dir}/history.json`);
+	}
+
+	/**
+	 * Load the history from its file. History saved with the settings by
+	 * older versions is moved to the file.
+	 */
+	async loadHistory(savedHistory?: PromptHistoryEntry[]) {
+		const { adapter } = this.app.vault;
+		const path = this.getHistoryPath();
+		try {
+			if (await adapter.exists(path)) {
+				const history = JSON.parse(await adapter.read(path));
+				this.promptHistory = Array.isArray(history) ? history : [];
+			} else if (savedHistory) {
+				this.promptHistory = savedHistory;
+				await this.saveHistory();
+			}
+		} catch (error) {
+			console.error("Error loading the LLM Context history:", error);
 		}
+	}
+
+	async saveHistory() {
+		await this.app.vault.adapter.write(
+			this.getHistoryPath(),
+			JSON.stringify(this.promptHistory)
+		);
+	}
 
-		// Extract Main Content section - note the case sensitivity in the markers
-		const mainContentMatch = cleanedContent.match(
-			/===== \[Main Content Start\] =====\n([\s\S]*?)===== \[Main Content End\] =====/i
+	/**
+	 * Get the format a history entry's prompt was rendered in
+	 */
+	getHistoryFormat(entry: PromptHistoryEntry): PromptFormat {
+		return (
+			(entry.promptFormat && PROMPT_FORMATS[entry.promptFormat]) ||
+			this.getPromptFormat(entry.templateKey)
 		);
-		if (mainContentMatch) {
-			sections.mainContent = mainContentMatch[1];
+	}
+
+	/**
+	 * Get the source of a history entry from the latest vault state. Returns
+	 * undefined, after telling the user why, if it can't be found.
+	 */
+	async getHistorySource(
+		entry: PromptHistoryEntry
+	): Promise<ContextSource | undefined> {
+		const getFile = (path: string) => {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			return file instanceof TFile ? file : undefined;
+		};
+
+		const mainFiles = entry.source.mainFiles
+			.map(getFile)
+			.filter((file): file is TFile => file !== undefined);
+		if (mainFiles.length === 0) {
+			new Notice(
+				"The main files of this prompt no longer exist in the vault"
+			);
+			return undefined;
 		}
 
-		// Extract Linked Files section
-		const linkedFilesMatch = cleanedContent.match(
-			/===== \[Linked Files Start\] =====\n([\s\S]*?)===== \[Linked Files End\] =====/i
-		);
-		if (linkedFilesMatch) {
-			sections.linkedFiles = linkedFilesMatch[1];
+		const source: ContextSource = {
+			description: entry.source.description,
+			mainFiles,
+			otherFiles: entry.source.otherFiles
+				.map(getFile)
+				.filter((file): file is TFile => file !== undefined),
+		};
+
+		// Select the same range of the latest file contents
+		const selection = entry.source.selection;
+		if (selection) {
+			const file = getFile(selection.path);
+			const fileContent = file ? await this.app.vault.read(file) : "";
+			if (!file || selection.end > fileContent.length) {
+				new Notice(
+					"The selected text of this prompt no longer exists in the note"
+				);
+				return undefined;
+			}
+			source.selection = {
+				file,
+				fileContent,
+				start: selection.start,
+				end: selection.end,
+			};
+		}
+
+		return source;
+	}
+
+	/**
+	 * Get the files left out or added by hand of a history entry, leaving
+	 * out added files that no longer exist
+	 */
+	getHistoryEdits(entry: PromptHistoryEntry): ContextEdits | undefined {
+		if (!entry.edits) {
+			return undefined;
+		}
+		return {
+			...entry.edits,
+			addedFiles: entry.edits.addedFiles
+				.map((path) => this.app.vault.getAbstractFileByPath(path))
+				.filter((file): file is TFile => file instanceof TFile),
+		};
+	}
+
+	/**
+	 * Generate a history entry's prompt again from the latest file contents
+	 */
+	async rerunHistoryEntry(entry: PromptHistoryEntry) {
+		const source = await this.getHistorySource(entry);
+		if (source) {
+			await this.generateLLMPrompt(
+				entry.templateKey,
+				entry.customInstruction,
+				source,
+				this.getHistoryEdits(entry)
+			);
+		}
+	}
+
+	/**
+	 * Build a history entry's prompt from the latest file contents, in the
+	 * same format and without the preview, to compare it with the prompt
+	 * generated then
+	 */
+	async rebuildHistoryEntry(
+		entry: PromptHistoryEntry
+	): Promise<BuiltPrompt | undefined> {
+		const source = await this.getHistorySource(entry);
+		return source
+			? this.buildPrompt(
+					entry.templateKey,
+					entry.customInstruction,
+					source,
+					false,
+					this.getHistoryFormat(entry),
+					this.getHistoryEdits(entry)
+			  )
+			: undefined;
+	}
+
+	/**
+	 * Build the context for a source, or for the active file when no source is
+	 * given, and start a conversation about it in the chat view
+	 */
+	async startChat(
+		templateKey: string,
+		customInstruction?: string,
+		source?: ContextSource
+	) {
+		try {
+			if (!this.settings.llmModel) {
+				throw new Error(
+					"Set a model in the LLM Endpoint settings first"
+				);
+			}
+
+			const built = await this.buildPrompt(
+				templateKey,
+				customInstruction,
+				source
+			);
+			if (!built) {
+				return;
+			}
+
+			const view = await this.activateChatView();
+			await view.startChat(built);
+		} catch (error) {
+			console.error("Error starting LLM chat:", error);
+			new Notice(`Error: ${error.message}`);
+		}
+	}
+
+	/**
+	 * Open the chat view in the right sidebar, or reveal it if it is open
+	 */
+	async activateChatView(): Promise<ChatView> {
+		const { workspace } = this.app;
+
+		let leaf = workspace.getLeavesOfType(CHAT_VIEW_TYPE)[0];
+		if (!leaf) {
+			leaf = workspace.getRightLeaf(false) ?? workspace.getLeaf("split");
+			await leaf.setViewState({ type: CHAT_VIEW_TYPE, active: true });
+		}
+		await workspace.revealLeaf(leaf);
+
+		if (!(leaf.view instanceof ChatView)) {
+			throw new Error("The chat view could not be opened");
+		}
+		return leaf.view;
+	}
+
+	/**
+	 * Build the prompt for a source, or for the active file when no source is
+	 * given. Returns undefined if there is nothing to build or the user
+	 * cancelled the preview.
+	 */
+	async buildPrompt(
+		templateKey: string,
+		customInstruction?: string,
+		source?: ContextSource,
+		preview = this.settings.previewBeforeGenerate,
+		format = this.getPromptFormat(templateKey),
+		edits?: ContextEdits
+	): Promise<BuiltPrompt | undefined> {
+		if (!source) {
+			const activeFile = this.app.workspace.getActiveFile();
+			if (!activeFile) {
+				new Notice("No active file selected");
+				return;
+			}
+			source = getFileSource(activeFile);
+		}
+
+		// Notes can exclude themselves from the context, even as main file
+		const excludedFile = source.mainFiles.find((file) =>
+			this.isExcluded(file)
+		);
+		if (excludedFile) {
+			new Notice(
+				`"${excludedFile.basename}" is excluded from LLM context by its ${FRONTMATTER_KEYS.exclude} property`
+			);
+			return;
+		}
+
+		// Get instruction text
+		let instructionText = "";
+		if (templateKey === "custom" && customInstruction) {
+			instructionText = customInstruction;
+		} else {
+			// Check if the requested template exists
+			const template = this.getTemplate(templateKey);
+			if (!template) {
+				new Notice(`Template "${templateKey}" not found`);
+				return;
+			}
+
+			// Get the instruction text from the template, unless it was
+			// edited in the prompt window
+			instructionText = customInstruction ?? template.instruction;
+		}
+
+		const exclusionRules = this.getExclusionRules(templateKey);
+
+		const mainFiles: MainFileEntry[] = [];
+		const roots: LinkRoot[] = [];
+
+		for (const file of source.mainFiles) {
+			const selection =
+				source.selection?.file === file ? source.selection : undefined;
+
+			// Get the file content (or the selected part of it), expanding
+			// embedded notes inline if enabled
+			const fileContent = selection
+				? selection.fileContent
+				: await this.app.vault.read(file);
+			const start = selection ? selection.start : this.getBodyStart(file);
+			const end = selection ? selection.end : fileContent.length;
+
+			let content = fileContent.slice(start, end);
+			const inlineEmbeds: InlineEmbed[] = [];
+			if (this.settings.expandEmbeds) {
+				content = await this.expandEmbeds(
+					file,
+					fileContent,
+					start,
+					end,
+					new Set([file.path]),
+					inlineEmbeds,
+					format,
+					exclusionRules
+				);
+			}
+
+			mainFiles.push({
+				file,
+				content,
+				selection: selection
+					? {
+							headingPath: this.settings.includeHeadingPath
+								? getHeadingPath(
+										this.app.metadataCache.getFileCache(
+											file
+										),
+										start
+								  )
+								: [],
+					  }
+					: undefined,
+				properties: selection ? undefined : this.getProperties(file),
+			});
+
+			// For a selection, only links within the selected text are
+			// followed. Links in expanded embeds are followed as if they
+			// were part of the file.
+			roots.push({
+				file,
+				via: [file.basename],
+				excerpt: selection
+					? {
+							subpath: "",
+							description: "selection",
+							content,
+							start,
+							end,
+					  }
+					: undefined,
+			});
+			for (const embed of inlineEmbeds) {
+				roots.push({
+					file: embed.file,
+					via: [file.basename],
+					excerpt: embed.excerpt,
+				});
+			}
+		}
+
+		// The other files of the source are included as linked files
+		let linkedFiles: LinkedFileEntry[] = [];
+		for (const file of source.otherFiles) {
+			linkedFiles.push({
+				file,
+				content: await this.readNote(file),
+				depth: 0,
+				via: [],
+				origin: `part of ${source.description}`,
+				properties: this.getProperties(file),
+			});
+			roots.push({ file, via: [file.basename] });
+		}
+
+		// Collect linked files, following links up to the link depth
+		const collection = await this.collectLinkedFiles(
+			roots,
+			this.getLinkDepth(source.mainFiles, templateKey),
+			exclusionRules,
+			format
+		);
+		const { unresolvedLinks, excludedFiles } = collection;
+		linkedFiles = [...linkedFiles, ...collection.linkedFiles];
+
+		// Collect notes linking to the main files, if enabled
+		let backlinks = await this.collectBacklinks(
+			source.mainFiles,
+			linkedFiles,
+			exclusionRules,
+			this.getTemplate(templateKey)?.backlinksMode ??
+				this.settings.backlinksMode
+		);
+
+		// Apply the files left out or added by hand when the prompt was built
+		// before
+		const collectedFiles = linkedFiles;
+		const collectedBacklinks = backlinks;
+		if (edits) {
+			const { removedFiles, addedFiles, removedBacklinks } = edits;
+			linkedFiles = linkedFiles.filter(
+				(entry) => !removedFiles.includes(getLinkedFileKey(entry))
+			);
+			for (const file of addedFiles) {
+				if (
+					!linkedFiles.some(
+						(entry) => entry.file === file && !entry.excerpt
+					)
+				) {
+					linkedFiles.push(await this.createAddedFileEntry(file));
+				}
+			}
+			backlinks = backlinks.filter(
+				(backlink) => !removedBacklinks.includes(backlink.file.path)
+			);
+		}
+
+		// Expand variables in the system prompt and instruction, redacting the
+		// property values they use
+		const contextSource = source;
+		const expandTexts = (
+			linkedCount: number,
+			redactor: Redactor | null
+		) => {
+			const variables = this.createVariableResolver(
+				contextSource,
+				templateKey,
+				linkedCount,
+				format,
+				redactor
+			);
+			return {
+				variables,
+				system: expandVariables(
+					this.getSystemPrompt(templateKey),
+					variables
+				),
+				instruction: expandVariables(instructionText, variables),
+			};
+		};
+
+		// Let the user prune or extend the linked files and backlinks before
+		// generating
+		if (preview) {
+			const selection = await new ContextSelectionModal(
+				this.app,
+				this,
+				mainFiles,
+				linkedFiles,
+				backlinks,
+				excludedFiles,
+				this.getTokenBudget(templateKey),
+				format,
+				(redactor) => expandTexts(linkedFiles.length, redactor)
+			).open();
+
+			if (!selection) {
+				return;
+			}
+			linkedFiles = selection.linkedFiles;
+			backlinks = selection.backlinks;
+		}
+
+		// Whole notes added by hand as linked files aren't repeated as
+		// backlinks
+		backlinks = backlinks.filter(
+			(backlink) =>
+				backlink.paragraphsOnly ||
+				!linkedFiles.some(
+					(entry) => entry.file === backlink.file && !entry.excerpt
+				)
+		);
+
+		// Record the files left out or added by hand, to apply them again
+		// when the prompt is built with another template
+		const collectedKeys = collectedFiles.map(getLinkedFileKey);
+		const keptKeys = linkedFiles.map(getLinkedFileKey);
+		const contextEdits: ContextEdits = {
+			removedFiles: collectedKeys.filter(
+				(key) => !keptKeys.includes(key)
+			),
+			addedFiles: linkedFiles
+				.filter(
+					(entry) => !collectedKeys.includes(getLinkedFileKey(entry))
+				)
+				.map((entry) => entry.file),
+			removedBacklinks: collectedBacklinks
+				.filter((backlink) => !backlinks.includes(backlink))
+				.map((backlink) => backlink.file.path),
+		};
+
+		// Replace sensitive text in the file contents and properties with
+		// placeholders. Binary data like images is left intact, as a
+		// placeholder would corrupt it.
+		const redactor = this.createRedactor();
+		if (redactor) {
+			for (const entry of [...mainFiles, ...linkedFiles, ...backlinks]) {
+				if (!isDataUrl(entry.content)) {
+					entry.content = redactor.redact(
+						entry.content,
+						entry.file.path
+					);
+				}
+				if (entry.properties) {
+					entry.properties = redactor.redact(
+						entry.properties,
+						entry.file.path
+					);
+				}
+			}
+		}
+
+		// Fit the prompt into the token budget, trimming or dropping linked
+		// files. The texts are expanded without redaction at first, so the
+		// redaction report only counts the final texts.
+		const fitted = expandTexts(linkedFiles.length, null);
+		let context = this.applyTokenBudget(
+			{
+				system: fitted.system,
+				instruction: fitted.instruction,
+				mainFiles,
+				linkedFiles,
+				backlinks,
+				unresolvedLinks,
+				excludedFiles,
+			},
+			this.getTokenBudget(templateKey),
+			format
+		);
+
+		// Expand the texts again, so {{linkedCount}} only counts the linked
+		// files left in the prompt
+		const { system, instruction } = expandTexts(
+			context.linkedFiles.length,
+			redactor
+		);
+		context = { ...context, system, instruction };
+
+		// The output file name isn't sent anywhere, so its property values
+		// aren't redacted, and it has no prompt structure to describe
+		const fileNameVariables = this.createVariableResolver(
+			source,
+			templateKey,
+			context.linkedFiles.length,
+			format
+		);
+
+		if (context.truncation) {
+			new Notice(
+				`Prompt exceeded the token budget: ${context.truncation.trimmed.length} linked file(s) or backlink(s) trimmed, ${context.truncation.dropped.length} dropped`
+			);
+		}
+
+		return {
+			source,
+			context,
+			format,
+			prompt: renderPrompt(context, format),
+			details: {
+				templateKey,
+				description: source.description,
+				files: getContextFiles(context),
+				sourceFile: source.mainFiles[0],
+				variables: (name, argument) =>
+					name === "structure"
+						? undefined
+						: fileNameVariables(name, argument),
+			},
+			redactor,
+			edits: contextEdits,
+		};
+	}
+
+	/**
+	 * Generate a prompt from the notes of a folder, tag or search, after
+	 * choosing a template and, unless all notes are treated as peers, the
+	 * main file
+	 */
+	generateFromFiles(description: string, files: TFile[]) {
+		// Notes excluded by their frontmatter are left out
+		const includedFiles = files.filter((file) => !this.isExcluded(file));
+		if (includedFiles.length === 0) {
+			new Notice(`No notes found in ${description}`);
+			return;
+		}
+
+		const orderedFiles = sortFiles(
+			includedFiles,
+			this.settings.sourceOrder
+		);
+
+		// Files excluded by the template's exclusion rules are left out of
+		// the other files, but a main file chosen by hand is kept
+		const generate = (templateKey: string, mainFiles: TFile[]) => {
+			const exclusionRules = this.getExclusionRules(templateKey);
+			this.generateWithTemplate(templateKey, {
+				description,
+				mainFiles,
+				otherFiles: orderedFiles.filter(
+					(file) =>
+						!mainFiles.includes(file) &&
+						!getExclusionReason(this.app, file, exclusionRules)
+				),
+			});
+		};
+
+		this.chooseTemplate(
+			`Choose a template for ${orderedFiles.length} note(s)...`,
+			(templateKey) => {
+				if (
+					this.settings.sourceMainMode === "peers" ||
+					orderedFiles.length === 1
+				) {
+					const exclusionRules = this.getExclusionRules(templateKey);
+					const mainFiles = orderedFiles.filter(
+						(file) =>
+							!getExclusionReason(this.app, file, exclusionRules)
+					);
+					if (mainFiles.length === 0) {
+						new Notice(
+							`All notes in ${description} are excluded by the exclusion rules`
+						);
+						return;
+					}
+					generate(templateKey, mainFiles);
+					return;
+				}
+
+				new FileSuggestModal(
+					this.app,
+					orderedFiles,
+					(file) => generate(templateKey, [file]),
+					"Choose the main file..."
+				).open();
+			},
+			orderedFiles.length === 1 ? orderedFiles[0] : null
+		);
+	}
+
+	/**
+	 * Let the user choose a template, or a custom instruction. The template
+	 * of the note the prompt is for, if any, is listed first.
+	 */
+	chooseTemplate(
+		placeholder: string,
+		onChoose: (templateKey: string) => void,
+		file?: TFile | null
+	) {
+		new ListSuggestModal(
+			this.app,
+			this.getTemplateChoices(file),
+			(templateKey) => this.getTemplateChoiceName(templateKey, file),
+			onChoose,
+			placeholder
+		).open();
+	}
+
+	/**
+	 * Generate a prompt with a template, first asking for the instruction if
+	 * the template is "custom"
+	 */
+	generateWithTemplate(templateKey: string, source?: ContextSource) {
+		if (templateKey !== "custom") {
+			this.generateLLMPrompt(templateKey, undefined, source);
+			return;
+		}
+
+		new CustomInstructionModal(this.app, async (instruction) => {
+			if (instruction) {
+				await this.generateLLMPrompt("custom", instruction, source);
+			}
+		}).open();
+	}
+
+	/**
+	 * Whether a note excludes itself from the context with `llm-exclude: true`
+	 */
+	isExcluded(file: TFile): boolean {
+		const value =
+			this.app.metadataCache.getFileCache(file)?.frontmatter?.[
+				FRONTMATTER_KEYS.exclude
+			];
+		return value === true || value === "true";
+	}
+
+	/**
+	 * Get the link depth for the main files: the largest `llm-depth` among
+	 * them, or the link depth of the template or the global one if none sets
+	 * it
+	 */
+	getLinkDepth(mainFiles: TFile[], templateKey: string): number {
+		const depths = mainFiles
+			.map((file) =>
+				parseInt(
+					this.app.metadataCache.getFileCache(file)?.frontmatter?.[
+						FRONTMATTER_KEYS.depth
+					],
+					10
+				)
+			)
+			.filter((depth) => depth >= 1);
+
+		return depths.length > 0
+			? Math.max(...depths)
+			: Math.max(
+					1,
+					Math.floor(
+						this.getTemplate(templateKey)?.linkDepth ??
+							this.settings.linkDepth
+					) || 1
+			  );
+	}
+
+	/**
+	 * Get the links listed in a note's `llm-include` property, which may be a
+	 * single link or a list, with or without brackets
+	 */
+	getIncludeLinks(file: TFile): Reference[] {
+		const value =
+			this.app.metadataCache.getFileCache(file)?.frontmatter?.[
+				FRONTMATTER_KEYS.include
+			];
+		if (value === undefined || value === null) {
+			return [];
+		}
+
+		// Unquoted [[links]] are parsed by YAML as nested lists
+		const flatten = (item: unknown): string[] =>
+			Array.isArray(item)
+				? item.reduce(
+						(links: string[], child) => [
+							...links,
+							...flatten(child),
+						],
+						[]
+				  )
+				: String(item).split(/\]\]\s*,\s*\[\[/);
+
+		return flatten(value)
+			.map((item) => item.trim().replace(/^\[\[|\]\]$/g, ""))
+			.filter((link) => link !== "")
+			.map((link) => ({
+				link: link.split("|")[0],
+				original: `[[${link}]]`,
+			}));
+	}
+
+	/**
+	 * Get the offset at which the content of a note starts: after the
+	 * frontmatter unless frontmatter is kept in the content
+	 */
+	getBodyStart(file: TFile): number {
+		const position =
+			this.app.metadataCache.getFileCache(file)?.frontmatterPosition;
+		if (this.settings.frontmatterMode === "keep" || !position) {
+			return 0;
+		}
+		// Also skip the line break ending the frontmatter
+		return position.end.offset + 1;
+	}
+
+	/**
+	 * Get the frontmatter properties of a note for the file header, when
+	 * frontmatter is moved out of the content
+	 */
+	getProperties(file: TFile): string | undefined {
+		const frontmatter =
+			this.app.metadataCache.getFileCache(file)?.frontmatter;
+		if (this.settings.frontmatterMode !== "metadata" || !frontmatter) {
+			return undefined;
+		}
+
+		const properties = Object.keys(frontmatter).map(
+			(key) => `${key}: ${formatPropertyValue(frontmatter[key])}`
+		);
+		return properties.length > 0 ? properties.join("; ") : undefined;
+	}
+
+	/**
+	 * A note added to the context by hand, as a linked file
+	 */
+	async createAddedFileEntry(file: TFile): Promise<LinkedFileEntry> {
+		return {
+			file,
+			content: await this.readNote(file),
+			depth: 0,
+			via: [],
+			origin: "added manually",
+			properties: this.getProperties(file),
+		};
+	}
+
+	/**
+	 * Read the content of a note, without its frontmatter unless frontmatter
+	 * is kept in the content
+	 */
+	async readNote(file: TFile): Promise<string> {
+		const content = await this.app.vault.read(file);
+		const start = this.getBodyStart(file);
+		return start === 0
+			? content
+			: content.slice(start).replace(/^\s*\n/, "");
+	}
+
+	/**
+	 * Collect linked files breadth-first, starting from the links in the root
+	 * files and following links in each linked file up to `maxDepth` hops.
+	 * Notes listed in `llm-include` are always followed, even past `maxDepth`,
+	 * and notes with `llm-exclude` are never included. Files matching the
+	 * exclusion rules are not included either, but are listed by name.
+	 * Non-Markdown files are converted to text by their attachment handler,
+	 * and skipped if there is none.
+	 * Links are resolved through the metadata cache, the same way Obsidian does.
+	 * The roots are the main files, the embeds already expanded into them and
+	 * the other files of the source; they are not repeated, but their links
+	 * are followed. For a root with an excerpt, like a selection, only the
+	 * links within the excerpt are followed.
+	 */
+	async collectLinkedFiles(
+		roots: LinkRoot[],
+		maxDepth: number,
+		exclusionRules: ExclusionRules[],
+		format: PromptFormat
+	): Promise<LinkCollection> {
+		let linkedFiles: LinkedFileEntry[] = [];
+		const unresolvedLinks: UnresolvedLink[] = [];
+		const excludedFiles: ExcludedFile[] = [];
+		const processedFiles = new Set<string>(); // Track files (and file excerpts) we've already processed
+		const reportedLinks = new Set<string>(); // Track unresolved links already reported
+
+		const reportUnresolved = (
+			source: TFile,
+			link: string,
+			reason?: string
+		) => {
+			const key = `${source.path}\n${link}`;
+			if (!reportedLinks.has(key)) {
+				reportedLinks.add(key);
+				unresolvedLinks.push({ link, source: source.basename, reason });
+			}
+		};
+
+		// Add the roots to the processed set to avoid self-references
+		for (const root of roots) {
+			processedFiles.add(
+				root.file.path + (root.excerpt ? root.excerpt.subpath : "")
+			);
+		}
+
+		// Files (or excerpts) whose links are expanded in the current hop
+		let frontier: LinkRoot[] = roots;
+
+		for (let depth = 1; frontier.length > 0; depth++) {
+			const nextFrontier: LinkedFileEntry[] = [];
+
+			for (const source of frontier) {
+				// Past the link depth, only llm-include links are followed
+				const includeLinks = this.getIncludeLinks(source.file);
+				const links =
+					depth <= maxDepth
+						? [
+								...getOutgoingLinks(
+									this.app,
+									source.file,
+									source.excerpt
+								),
+								...includeLinks,
+						  ]
+						: includeLinks;
+
+				for (const link of links) {
+					const { path: linkpath, subpath } = parseLinktext(
+						link.link
+					);
+
+					// Links to a heading or block in the same file are self-references
+					if (!linkpath) {
+						continue;
+					}
+
+					const linkedFile =
+						this.app.metadataCache.getFirstLinkpathDest(
+							linkpath,
+							source.file.path
+						);
+
+					if (!linkedFile) {
+						reportUnresolved(source.file, link.link);
+						continue;
+					}
+
+					// Skip non-Markdown files without a handler, excluded notes
+					// and files we've already reached in full (duplicates and
+					// cycles)
+					const handler =
+						linkedFile.extension === "md"
+							? undefined
+							: this.getAttachmentHandler(linkedFile);
+					if (
+						(linkedFile.extension !== "md" && !handler) ||
+						this.isExcluded(linkedFile) ||
+						processedFiles.has(linkedFile.path)
+					) {
+						continue;
+					}
+
+					// List files excluded by the rules by name only
+					const exclusion = getExclusionReason(
+						this.app,
+						linkedFile,
+						exclusionRules
+					);
+					if (exclusion) {
+						processedFiles.add(linkedFile.path);
+						excludedFiles.push({
+							file: linkedFile,
+							source: source.file.basename,
+							reason: exclusion,
+						});
+						continue;
+					}
+
+					// Attachments are included whole and have no links to follow
+					if (handler) {
+						processedFiles.add(linkedFile.path);
+
+						let content: string;
+						try {
+							content = await handler.render(
+								this.app,
+								linkedFile,
+								{
+									altText: getAltText(link),
+									format,
+									csvRowLimit: this.settings.csvRowLimit,
+								}
+							);
+						} catch (error) {
+							console.error(
+								`Error reading ${linkedFile.path}:`,
+								error
+							);
+							reportUnresolved(
+								source.file,
+								link.link,
+								"file could not be read"
+							);
+							continue;
+						}
+
+						linkedFiles.push({
+							file: linkedFile,
+							content,
+							depth,
+							via: [...source.via, linkedFile.basename],
+							fileType: handler.type,
+						});
+						continue;
+					}
+
+					let content: string;
+					let excerpt: Excerpt | undefined;
+
+					if (subpath) {
+						content = await this.app.vault.read(linkedFile);
+						const excerptKey = `${linkedFile.path}${subpath}`;
+						if (processedFiles.has(excerptKey)) {
+							continue;
+						}
+
+						const cache =
+							this.app.metadataCache.getFileCache(linkedFile);
+						excerpt =
+							(cache &&
+								extractExcerpt(content, cache, subpath)) ??
+							undefined;
+
+						if (!excerpt) {
+							reportUnresolved(
+								source.file,
+								link.link,
+								"section not found"
+							);
+							continue;
+						}
+
+						processedFiles.add(excerptKey);
+					} else {
+						content = await this.readNote(linkedFile);
+
+						// The whole file supersedes any excerpts of it collected earlier
+						processedFiles.add(linkedFile.path);
+						linkedFiles = linkedFiles.filter(
+							(entry) => entry.file !== linkedFile
+						);
+					}
+
+					const entry: LinkedFileEntry = {
+						file: linkedFile,
+						content: excerpt ? excerpt.content : content,
+						depth,
+						via: [
+							...source.via,
+							linkedFile.basename + (excerpt ? subpath : ""),
+						],
+						excerpt,
+						properties: excerpt
+							? undefined
+							: this.getProperties(linkedFile),
+					};
+					linkedFiles.push(entry);
+					nextFrontier.push(entry);
+				}
+			}
+
+			frontier = nextFrontier;
+		}
+
+		return { linkedFiles, unresolvedLinks, excludedFiles };
+	}
+
+	/**
+	 * Collect the notes that link to any of the main files, either in full or
+	 * only the paragraphs mentioning them, depending on the mode. In
+	 * full mode, notes already included in full as linked files are not
+	 * repeated.
+	 */
+	async collectBacklinks(
+		mainFiles: TFile[],
+		linkedFiles: LinkedFileEntry[],
+		exclusionRules: ExclusionRules[],
+		mode: BacklinksMode
+	): Promise<BacklinkEntry[]> {
+		if (mode === "off") {
+			return [];
+		}
+
+		const { resolvedLinks } = this.app.metadataCache;
+		const countMentions = (sourcePath: string) =>
+			mainFiles.reduce(
+				(mentions, file) =>
+					mentions + (resolvedLinks[sourcePath][file.path] ?? 0),
+				0
+			);
+		const sourcePaths = Object.keys(resolvedLinks)
+			.filter(
+				(sourcePath) =>
+					!mainFiles.some((file) => file.path === sourcePath) &&
+					countMentions(sourcePath) > 0
+			)
+			.sort();
+
+		const backlinks: BacklinkEntry[] = [];
+
+		for (const sourcePath of sourcePaths) {
+			const source = this.app.vault.getAbstractFileByPath(sourcePath);
+			if (
+				!(source instanceof TFile) ||
+				source.extension !== "md" ||
+				this.isExcluded(source) ||
+				getExclusionReason(this.app, source, exclusionRules)
+			) {
+				continue;
+			}
+
+			const mentions = countMentions(sourcePath);
+
+			if (mode === "note") {
+				if (
+					linkedFiles.some(
+						(entry) => entry.file === source && !entry.excerpt
+					)
+				) {
+					continue;
+				}
+
+				backlinks.push({
+					file: source,
+					content: await this.readNote(source),
+					mentions,
+					paragraphsOnly: false,
+					properties: this.getProperties(source),
+				});
+				continue;
+			}
+
+			const paragraphs = this.extractMentioningParagraphs(
+				source,
+				await this.app.vault.read(source),
+				mainFiles
+			);
+			if (paragraphs.length > 0) {
+				backlinks.push({
+					file: source,
+					content: paragraphs.join("\n\n---\n\n"),
+					mentions,
+					paragraphsOnly: true,
+				});
+			}
+		}
+
+		return backlinks;
+	}
+
+	/**
+	 * Get the paragraphs (or other blocks, like list items and tables) of a note
+	 * that contain a link to one of the target files, in document order
+	 */
+	extractMentioningParagraphs(
+		source: TFile,
+		content: string,
+		targets: TFile[]
+	): string[] {
+		const cache = this.app.metadataCache.getFileCache(source);
+		if (!cache) {
+			return [];
+		}
+
+		const resolvesToTarget = (link: Reference) => {
+			const target = this.app.metadataCache.getFirstLinkpathDest(
+				parseLinktext(link.link).path,
+				source.path
+			);
+			return target !== null && targets.includes(target);
+		};
+
+		const paragraphs: string[] = [];
+
+		// Links in frontmatter properties have no position, so name the property
+		for (const link of cache.frontmatterLinks ?? []) {
+			if (resolvesToTarget(link)) {
+				paragraphs.push(`${link.key}: ${link.original}`);
+			}
+		}
+
+		const seenBlocks = new Set<number>();
+		const bodyLinks: ReferenceCache[] = [
+			...(cache.links ?? []),
+			...(cache.embeds ?? []),
+		].sort((a, b) => a.position.start.offset - b.position.start.offset);
+
+		for (const link of bodyLinks) {
+			if (!resolvesToTarget(link)) {
+				continue;
+			}
+
+			// Find the block containing the link, falling back to its line
+			const offset = link.position.start.offset;
+			const section = (cache.sections ?? []).find(
+				(section) =>
+					section.position.start.offset <= offset &&
+					section.position.end.offset >= offset
+			);
+			const start = section
+				? section.position.start.offset
+				: content.lastIndexOf("\n", offset) + 1;
+
+			if (seenBlocks.has(start)) {
+				continue;
+			}
+			seenBlocks.add(start);
+
+			let end = section
+				? section.position.end.offset
+				: content.indexOf("\n", offset);
+			if (end === -1) {
+				end = content.length;
+			}
+
+			paragraphs.push(content.slice(start, end).trim());
+		}
+
+		return paragraphs;
+	}
+
+	/**
+	 * Expand the Markdown embeds (![[note]] and ![[note#section]]) between
+	 * `start` and `end` of a file inline, recursively, wrapped in the embed
+	 * markers of the format. `stack` holds the files and excerpts currently
+	 * being expanded, so embed cycles are left as-is.
+	 */
+	async expandEmbeds(
+		file: TFile,
+		content: string,
+		start: number,
+		end: number,
+		stack: Set<string>,
+		inlineEmbeds: InlineEmbed[],
+		format: PromptFormat,
+		exclusionRules: ExclusionRules[]
+	): Promise<string> {
+		const cache = this.app.metadataCache.getFileCache(file);
+		const embeds = (cache?.embeds ?? [])
+			.filter(
+				(embed) =>
+					embed.position.start.offset >= start &&
+					embed.position.end.offset <= end
+			)
+			.sort((a, b) => a.position.start.offset - b.position.start.offset);
+
+		let result = "";
+		let cursor = start;
+
+		for (const embed of embeds) {
+			const { path: linkpath, subpath } = parseLinktext(embed.link);
+
+			// An empty link path embeds a section of the same file
+			const target = linkpath
+				? this.app.metadataCache.getFirstLinkpathDest(
+						linkpath,
+						file.path
+				  )
+				: file;
+
+			// Leave non-Markdown embeds (images, PDFs, ...) and embeds of
+			// excluded notes untouched
+			if (
+				!target ||
+				target.extension !== "md" ||
+				this.isExcluded(target) ||
+				getExclusionReason(this.app, target, exclusionRules)
+			) {
+				continue;
+			}
+
+			// Skip cycles: the target, or the whole file it is part of, is
+			// already being expanded
+			const key = target.path + (subpath ?? "");
+			if (stack.has(key) || (target !== file && stack.has(target.path))) {
+				continue;
+			}
+
+			const targetContent =
+				target === file ? content : await this.app.vault.read(target);
+			let excerpt: Excerpt | undefined;
+
+			if (subpath) {
+				const targetCache = this.app.metadataCache.getFileCache(target);
+				excerpt =
+					(targetCache &&
+						extractExcerpt(targetContent, targetCache, subpath)) ??
+					undefined;
+
+				// Leave embeds of missing sections untouched
+				if (!excerpt) {
+					continue;
+				}
+			}
+
+			stack.add(key);
+			const expanded = await this.expandEmbeds(
+				target,
+				targetContent,
+				excerpt ? excerpt.start : this.getBodyStart(target),
+				excerpt ? excerpt.end : targetContent.length,
+				stack,
+				inlineEmbeds,
+				format,
+				exclusionRules
+			);
+			stack.delete(key);
+
+			if (target !== file) {
+				inlineEmbeds.push({ file: target, excerpt });
+			}
+
+			const label = target.basename + (subpath ?? "");
+			result += content.slice(cursor, embed.position.start.offset);
+			result += `\n${format.embedStart(label)}\n`;
+			result += `${expanded.trim()}\n`;
+			result += `${format.embedEnd(label)}\n`;
+			cursor = embed.position.end.offset;
+		}
+
+		result += content.slice(cursor, end);
+		return result;
+	}
+
+	registerTokenEstimator(estimator: TokenEstimator) {
+		this.tokenEstimators[estimator.id] = estimator;
+	}
+
+	registerAttachmentHandler(handler: AttachmentHandler) {
+		for (const extension of handler.extensions) {
+			this.attachmentHandlers[extension.toLowerCase()] = handler;
+		}
+	}
+
+	/**
+	 * Get the handler for a non-Markdown file, or undefined if there is none
+	 * or attachments are turned off
+	 */
+	getAttachmentHandler(file: TFile): AttachmentHandler | undefined {
+		return this.settings.includeAttachments
+			? this.attachmentHandlers[file.extension.toLowerCase()]
+			: undefined;
+	}
+
+	estimateTokens(text: string): number {
+		const estimator =
+			this.tokenEstimators[this.settings.tokenEstimator] ??
+			this.tokenEstimators[DEFAULT_SETTINGS.tokenEstimator];
+		return estimator.estimate(text);
+	}
+
+	/**
+	 * Get the token budget for a template, falling back to the global budget
+	 */
+	getTokenBudget(templateKey: string): number {
+		return (
+			this.getTemplate(templateKey)?.tokenBudget ??
+			this.settings.tokenBudget
+		);
+	}
+
+	/**
+	 * Get the exclusion rules for a template: the global rules and the rules
+	 * of the template
+	 */
+	getExclusionRules(templateKey: string): ExclusionRules[] {
+		const templateRules = this.getTemplate(templateKey)?.exclusionRules;
+		return templateRules
+			? [this.settings.exclusionRules, templateRules]
+			: [this.settings.exclusionRules];
+	}
+
+	/**
+	 * Trim or drop linked files and backlinks, lowest priority first, until
+	 * the prompt fits the token budget. Backlinks are cut before any linked file.
+	 * The system prompt, instruction and main content are always kept intact.
+	 */
+	applyTokenBudget(
+		context: PromptContext,
+		budget: number,
+		format: PromptFormat
+	): PromptContext {
+		const originalTokens = this.estimateTokens(
+			renderPrompt(context, format)
+		);
+		if (budget <= 0 || originalTokens <= budget) {
+			return context;
+		}
+
+		const truncation: TruncationSummary = {
+			budget,
+			originalTokens,
+			trimmed: [],
+			dropped: [],
+		};
+
+		// Tokens used by everything but the linked files and backlinks,
+		// reserving room for a summary listing every one of them as dropped
+		const fixedTokens = this.estimateTokens(
+			renderPrompt(
+				{
+					...context,
+					linkedFiles: [],
+					backlinks: [],
+					truncation: {
+						...truncation,
+						dropped: [
+							...context.linkedFiles,
+							...context.backlinks,
+						].map((entry) => ({
+							entry,
+							tokens: originalTokens,
+						})),
+					},
+				},
+				format
+			)
+		);
+
+		let remaining = budget - fixedTokens;
+
+		// Keep, trim or drop each file, highest priority first, and return
+		// the files kept, trimmed or not, in their original order
+		const fit = <Entry extends LinkedFileEntry | BacklinkEntry>(
+			entries: Entry[],
+			prioritized: Entry[],
+			render: (entry: Entry) => string
+		): Entry[] => {
+			const kept = new Map<Entry, Entry>();
+
+			for (const entry of prioritized) {
+				const tokens = this.estimateTokens(render(entry));
+
+				if (tokens <= remaining) {
+					kept.set(entry, entry);
+					remaining -= tokens;
+					continue;
+				}
+
+				// Trim the file if a meaningful part of it still fits
+				const available =
+					remaining -
+					this.estimateTokens(
+						render({ ...entry, content: TRUNCATION_MARKER })
+					);
+				if (available >= MIN_TRIMMED_FILE_TOKENS) {
+					const trimmed: Entry = {
+						...entry,
+						content: trimToTokens(
+							entry.content,
+							this.estimateTokens(entry.content),
+							available
+						),
+					};
+					const keptTokens = this.estimateTokens(render(trimmed));
+
+					kept.set(entry, trimmed);
+					remaining -= keptTokens;
+					truncation.trimmed.push({ entry, tokens, keptTokens });
+					continue;
+				}
+
+				truncation.dropped.push({ entry, tokens });
+			}
+
+			return entries
+				.filter((entry) => kept.has(entry))
+				.map((entry) => kept.get(entry) as Entry);
+		};
+
+		const linkedFiles = fit(
+			context.linkedFiles,
+			this.prioritizeLinkedFiles(context.linkedFiles),
+			(entry) => renderLinkedFile(entry, format)
+		);
+		const backlinks = fit(
+			context.backlinks,
+			context.backlinks,
+			(backlink) => format.renderFile(backlinkToPromptFile(backlink))
+		);
+
+		return { ...context, linkedFiles, backlinks, truncation };
+	}
+
+	/**
+	 * Sort linked files from highest to lowest priority, using the configured
+	 * priority first and the others as tie-breakers
+	 */
+	prioritizeLinkedFiles(linkedFiles: LinkedFileEntry[]): LinkedFileEntry[] {
+		const comparators: {
+			[key in TruncationPriority]: (
+				a: LinkedFileEntry,
+				b: LinkedFileEntry
+			) => number;
+		} = {
+			// Closer files first
+			distance: (a, b) => a.depth - b.depth,
+			// Smaller files first
+			size: (a, b) => a.content.length - b.content.length,
+			// Recently modified files first
+			recency: (a, b) => b.file.stat.mtime - a.file.stat.mtime,
+		};
+
+		const order: TruncationPriority[] = [
+			this.settings.truncationPriority,
+			...TRUNCATION_PRIORITIES.filter(
+				(priority) => priority !== this.settings.truncationPriority
+			),
+		];
+
+		return [...linkedFiles].sort((a, b) => {
+			for (const priority of order) {
+				const difference = comparators[priority](a, b);
+				if (difference !== 0) {
+					return difference;
+				}
+			}
+			return 0;
+		});
+	}
+
+	/**
+	 * Create a redactor with the enabled detectors and rules, or null if
+	 * redaction is off
+	 */
+	createRedactor(): Redactor | null {
+		if (!this.settings.redactionEnabled) {
+			return null;
+		}
+
+		const detectors = REDACTION_DETECTOR_IDS.filter((id) =>
+			this.settings.redactionDetectors.includes(id)
+		).map((id) =>
+			REDACTION_DETECTORS[id](this.settings.redactionCalloutType)
+		);
+
+		for (const rule of this.settings.redactionRules) {
+			const pattern = parseRedactionPattern(rule.pattern);
+			if (!pattern) {
+				console.error(
+					`Invalid redaction rule "${rule.name}": ${rule.pattern}`
+				);
+				continue;
+			}
+
+			detectors.push({
+				name: rule.name,
+				label:
+					rule.name.toUpperCase().replace(/[^A-Z0-9]+/g, "_") ||
+					"REDACTED",
+				pattern,
+			});
+		}
+
+		return new Redactor(detectors);
+	}
+
+	/**
+	 * Get the system prompt chosen by a template, or the active one
+	 */
+	getSystemPrompt(templateKey?: string): string {
+		const name =
+			(templateKey && this.getTemplate(templateKey)?.systemPrompt) ||
+			this.settings.activeSystemPrompt;
+		return (
+			this.settings.systemPrompts[name] ??
+			this.settings.systemPrompts[this.settings.activeSystemPrompt] ??
+			DEFAULT_SYSTEM_PROMPT
+		);
+	}
+
+	/**
+	 * Name of a template for commands and lists: its key, followed by its
+	 * description if it has one
+	 */
+	getTemplateName(templateKey: string): string {
+		const description = this.getTemplate(templateKey)?.description;
+		return description ? `${templateKey}: ${description}` : templateKey;
+	}
+
+	/**
+	 * The template a note names in its `llm-template` property, if it exists
+	 */
+	getNoteTemplateKey(file?: TFile | null): string | undefined {
+		const templateKey =
+			file &&
+			this.app.metadataCache.getFileCache(file)?.frontmatter?.[
+				FRONTMATTER_KEYS.template
+			];
+		return typeof templateKey === "string" && this.getTemplate(templateKey)
+			? templateKey
+			: undefined;
+	}
+
+	/**
+	 * Keys of the templates to choose from for a note: the note's own
+	 * template first, then the other templates and "custom"
+	 */
+	getTemplateChoices(file?: TFile | null): string[] {
+		const noteTemplateKey = this.getNoteTemplateKey(file);
+		const templateKeys = this.getTemplateKeys();
+		return noteTemplateKey
+			? [
+					noteTemplateKey,
+					...templateKeys.filter((key) => key !== noteTemplateKey),
+					"custom",
+			  ]
+			: [...templateKeys, "custom"];
+	}
+
+	/**
+	 * Name of a template to choose from for a note, marking the note's own
+	 * template
+	 */
+	getTemplateChoiceName(templateKey: string, file?: TFile | null): string {
+		if (templateKey === "custom") {
+			return "Custom Instruction...";
+		}
+		const name = this.getTemplateName(templateKey);
+		return templateKey === this.getNoteTemplateKey(file)
+			? `${name} (note's template)`
+			: name;
+	}
+
+	/**
+	 * Get a template by its key, or undefined for custom instructions and
+	 * templates that don't exist. Templates in the settings take precedence
+	 * over templates stored as notes with the same name.
+	 */
+	getTemplate(templateKey: string): InstructionTemplate | undefined {
+		for (const templates of [
+			this.settings.instructionTemplates,
+			this.vaultTemplates,
+		]) {
+			if (Object.prototype.hasOwnProperty.call(templates, templateKey)) {
+				return templates[templateKey];
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Keys of all templates: those in the settings, then those stored as
+	 * notes
+	 */
+	getTemplateKeys(): string[] {
+		const keys = Object.keys(this.settings.instructionTemplates);
+		return [
+			...keys,
+			...Object.keys(this.vaultTemplates).filter(
+				(key) => !keys.includes(key)
+			),
+		];
+	}
+
+	isInTemplateFolder(path: string): boolean {
+		const folder = normalizePath(this.settings.templateFolder);
+		return (
+			this.settings.templateFolder.trim() !== "" &&
+			path.startsWith(`${folder}/`) &&
+			path.endsWith(".md")
+		);
+	}
+
+	/**
+	 * Load the templates stored as notes in the template folder, named after
+	 * the note, and register their commands. The frontmatter holds the
+	 * template's settings and the body its instruction. Notes whose name
+	 * can't be used, or is taken by another template, are skipped.
+	 */
+	async loadVaultTemplates() {
+		const templates: { [key: string]: InstructionTemplate } = {};
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			if (!this.isInTemplateFolder(file.path)) {
+				continue;
+			}
+
+			const problem =
+				checkTemplateName(file.basename) ??
+				(findTemplateKey(file.basename, [
+					...Object.keys(this.settings.instructionTemplates),
+					...Object.keys(templates),
+				]) !== undefined
+					? "a template with this name already exists"
+					: undefined);
+			if (problem) {
+				console.warn(`Skipping template ${file.path}: ${problem}`);
+				continue;
+			}
+
+			try {
+				const content = await this.app.vault.cachedRead(file);
+				const info = getFrontMatterInfo(content);
+				templates[file.basename] = parseTemplate(
+					(info.exists && parseYaml(info.frontmatter)) || {},
+					content.slice(info.contentStart).trim()
+				);
+			} catch (error) {
+				console.error(`Error reading template ${file.path}:`, error);
+			}
+		}
+
+		this.vaultTemplates = templates;
+		this.registerCommands();
+	}
+
+	/**
+	 * Add an empty template to the settings
+	 */
+	async addTemplate(templateKey: string) {
+		this.settings.instructionTemplates = {
+			...this.settings.instructionTemplates,
+			[templateKey]: {
+				instruction: "",
+				commandId: createCommandId(
+					templateKey,
+					Object.values(this.templateCommandIds)
+				),
+			},
+		};
+		await this.saveSettings();
+	}
+
+	/**
+	 * Rename a template in the settings, keeping its place in the list. Its
+	 * commands keep their ids, so hotkeys stay bound, and history entries
+	 * follow the new name.
+	 */
+	async renameTemplate(oldKey: string, newKey: string) {
+		const templates: { [key: string]: InstructionTemplate } = {};
+		for (const key of Object.keys(this.settings.instructionTemplates)) {
+			const template = this.settings.instructionTemplates[key];
+			if (key === oldKey) {
+				templates[newKey] = {
+					...template,
+					commandId:
+						template.commandId ?? this.templateCommandIds[oldKey],
+				};
+			} else {
+				templates[key] = template;
+			}
+		}
+		this.settings.instructionTemplates = templates;
+		this.promptHistory = this.promptHistory.map((entry) =>
+			entry.templateKey === oldKey
+				? { ...entry, templateKey: newKey }
+				: entry
+		);
+		await this.saveSettings();
+		await this.saveHistory();
+		// A template note skipped for having the old name can now be loaded
+		await this.loadVaultTemplates();
+	}
+
+	/**
+	 * Why a name can't be used for a new or renamed template, or undefined
+	 * if it can. Names of templates in the settings and of those stored as
+	 * notes are both taken.
+	 */
+	validateTemplateName(
+		name: string,
+		currentKey?: string
+	): string | undefined {
+		const problem = checkTemplateName(name);
+		if (problem) {
+			return problem;
+		}
+		const taken = findTemplateKey(
+			name,
+			this.getTemplateKeys().filter((key) => key !== currentKey)
+		);
+		if (taken !== undefined) {
+			return `Template "${taken}" already exists`;
+		}
+		return undefined;
+	}
+
+	/**
+	 * Templates in the settings as JSON, for importing into another vault
+	 */
+	exportTemplates(): string {
+		// Command ids only apply to this vault
+		const templates: { [key: string]: InstructionTemplate } = {};
+		for (const key of Object.keys(this.settings.instructionTemplates)) {
+			templates[key] = { ...this.settings.instructionTemplates[key] };
+			delete templates[key].commandId;
+		}
+		return JSON.stringify({ version: 1, templates }, null, 2);
+	}
+
+	/**
+	 * Add templates from exported JSON to the settings. Templates whose name
+	 * is taken are skipped, overwrite the existing template or are added
+	 * with a number after their name. Templates stored as notes can't be
+	 * overwritten, so those taking their name are renamed instead. Templates
+	 * whose name can't be used are skipped as invalid. Returns what happened
+	 * to each.
+	 */
+	async importTemplates(
+		json: string,
+		conflict: ImportConflict
+	): Promise<{ [result in "added" | "invalid" | ImportConflict]: string[] }> {
+		const parsed = JSON.parse(json);
+		// Also accept a plain map of templates
+		const templates = parsed?.templates ?? parsed;
+		if (typeof templates !== "object" || templates === null) {
+			throw new Error("No templates found");
+		}
+
+		const results: {
+			[result in "added" | "invalid" | ImportConflict]: string[];
+		} = {
+			added: [],
+			invalid: [],
+			skip: [],
+			overwrite: [],
+			rename: [],
+		};
+		const imported = { ...this.settings.instructionTemplates };
+		const commandIds = () =>
+			Object.values(imported).map((template) => template.commandId ?? "");
+		const findTaken = (key: string) =>
+			findTemplateKey(key, [
+				...Object.keys(imported),
+				...Object.keys(this.vaultTemplates),
+			]);
+
+		for (const name of Object.keys(templates)) {
+			const value = templates[name];
+			const template =
+				typeof value === "string"
+					? { instruction: value }
+					: typeof value?.instruction === "string"
+					? parseTemplate(value, value.instruction)
+					: undefined;
+			if (!template) {
+				continue;
+			}
+			if (checkTemplateName(name)) {
+				results.invalid.push(name);
+				continue;
+			}
+
+			let key = name;
+			const taken = findTaken(name);
+			if (taken !== undefined) {
+				const result =
+					conflict === "overwrite" &&
+					!Object.prototype.hasOwnProperty.call(imported, taken)
+						? "rename"
+						: conflict;
+				results[result].push(name);
+				if (result === "skip") {
+					continue;
+				}
+				if (result === "overwrite") {
+					key = taken;
+				} else {
+					for (
+						let number = 2;
+						findTaken(key) !== undefined;
+						number++
+					) {
+						key = `${name} ${number}`;
+					}
+				}
+			} else {
+				results.added.push(name);
+			}
+			// An overwritten template keeps its commands
+			imported[key] = {
+				...template,
+				commandId:
+					imported[key]?.commandId ??
+					createCommandId(key, commandIds()),
+			};
+		}
+
+		this.settings.instructionTemplates = imported;
+		await this.saveSettings();
+		return results;
+	}
+
+	/**
+	 * Create the resolver for the variables available in system prompts and
+	 * instruction templates
+	 */
+	createVariableResolver(
+		source: ContextSource,
+		templateKey: string,
+		linkedCount: number,
+		format: PromptFormat,
+		redactor: Redactor | null = null
+	): VariableResolver {
+		// With several main files, file variables refer to the first one
+		const activeFile = source.mainFiles[0];
+		const frontmatter =
+			this.app.metadataCache.getFileCache(activeFile)?.frontmatter;
+
+		return (name, argument) => {
+			// Property values are redacted like the file contents
+			if (name.startsWith("frontmatter.")) {
+				const value = formatPropertyValue(
+					frontmatter?.[name.slice("frontmatter.".length)]
+				);
+				return redactor && value !== undefined
+					? redactor.redact(value, activeFile.path)
+					: value;
+			}
+
+			switch (name) {
+				case "date":
+					return moment().format(argument || "YYYY-MM-DD");
+				case "time":
+					return moment().format(argument || "HH:mm");
+				case "vault":
+					return this.app.vault.getName();
+				case "activeFile":
+				case "basename":
+					return activeFile.basename;
+				case "activeFilePath":
+					return activeFile.path;
+				case "source":
+					return source.description;
+				case "template":
+					return templateKey;
+				case "linkedCount":
+					return String(linkedCount);
+				case "structure":
+					return format.describeStructure().trim();
+			}
+
+			return undefined;
+		};
+	}
+
+	/**
+	 * Get the prompt format for a template, falling back to the global format
+	 */
+	getPromptFormat(templateKey: string): PromptFormat {
+		const formatId =
+			this.getTemplate(templateKey)?.promptFormat ??
+			this.settings.promptFormat;
+		return PROMPT_FORMATS[formatId] ?? PROMPT_FORMATS.delimiter;
+	}
+
+	/**
+	 * Get the output actions for a template, falling back to the global ones
+	 */
+	getOutputActions(templateKey: string): OutputAction[] {
+		return (
+			this.getTemplate(templateKey)?.outputActions ??
+			this.settings.outputActions
+		);
+	}
+
+	/**
+	 * Run the output actions in order. A failing action doesn't stop the
+	 * ones after it, and each action reports its own result. Given the
+	 * built prompt, the modal can edit it.
+	 */
+	async outputPrompt(
+		promptContent: string,
+		format: PromptFormat,
+		details: OutputDetails,
+		built?: BuiltPrompt
+	) {
+		const actions = this.getOutputActions(details.templateKey);
+		if (actions.length === 0) {
+			new Notice("No output actions are set up in the settings");
+			return;
+		}
+
+		for (const action of actions) {
+			try {
+				const message = await this.runOutputAction(
+					action,
+					promptContent,
+					format,
+					details,
+					built
+				);
+				if (message) {
+					new Notice(message);
+				}
+			} catch (error) {
+				console.error(`Error in output action "${action}":`, error);
+				new Notice(
+					`${OUTPUT_ACTION_NAMES[action]} failed: ${error.message}`
+				);
+			}
+		}
+	}
+
+	/**
+	 * Run an output action, returning the message reporting its success, if
+	 * it isn't visible by itself
+	 */
+	async runOutputAction(
+		action: OutputAction,
+		promptContent: string,
+		format: PromptFormat,
+		details: OutputDetails,
+		built?: BuiltPrompt
+	): Promise<string | undefined> {
+		switch (action) {
+			case "clipboard":
+				await navigator.clipboard.writeText(promptContent);
+				return "LLM Context prompt copied to clipboard";
+
+			case "file": {
+				const file = await this.savePromptToFile(
+					promptContent,
+					details
+				);
+				if (this.settings.openOutputFile) {
+					await this.app.workspace.getLeaf("tab").openFile(file);
+				}
+				return `LLM Context prompt saved to ${file.path}`;
+			}
+
+			case "modal":
+				new PromptDisplayModal(
+					this.app,
+					promptContent,
+					format,
+					this,
+					built
+				).open();
+				return undefined;
+
+			case "send":
+				await this.sendPrompt(promptContent, details);
+				return "LLM response complete";
+
+			case "cursor": {
+				const editor = this.app.workspace.activeEditor?.editor;
+				if (!editor) {
+					throw new Error("No editor open");
+				}
+				// After the selection, which may be the prompt's main content
+				editor.replaceRange(promptContent, editor.getCursor("to"));
+				return "LLM Context prompt inserted at the cursor";
+			}
+
+			case "log": {
+				const logFile = await this.appendToLog(promptContent, details);
+				return `LLM Context prompt appended to ${logFile.path}`;
+			}
+		}
+	}
+
+	/**
+	 * Append the prompt to the log note in a code block, under a heading with
+	 * the time, template and source. The note is created if needed.
+	 */
+	async appendToLog(
+		promptContent: string,
+		details: OutputDetails
+	): Promise<TFile> {
+		let path = normalizePath(
+			this.settings.logNotePath || DEFAULT_SETTINGS.logNotePath
+		);
+		if (!/\.[^/.]+$/.test(path)) {
+			path += ".md";
+		}
+
+		const fence = codeFence(promptContent);
+		const entry = `## ${moment().format("YYYY-MM-DD HH:mm")} · ${
+			details.templateKey
+		} · ${details.description}\n\n${fence}\n${promptContent}\n${fence}\n`;
+
+		const existing = this.app.vault.getAbstractFileByPath(path);
+		if (existing instanceof TFile) {
+			await this.app.vault.append(existing, `\n${entry}`);
+			return existing;
+		}
+		if (existing) {
+			throw new Error(`"${path}" is a folder`);
+		}
+
+		await this.ensureFolder(getParentPath(path));
+		return this.app.vault.create(path, entry);
+	}
+
+	/**
+	 * Send the prompt to the configured endpoint and stream the response
+	 * into a new note, or below the cursor if there is an editor
+	 */
+	async sendPrompt(promptContent: string, details: OutputDetails) {
+		if (!this.settings.llmModel) {
+			throw new Error("Set a model in the LLM Endpoint settings first");
+		}
+
+		const editor =
+			this.settings.responseTarget === "cursor"
+				? this.app.workspace.activeEditor?.editor
+				: undefined;
+		if (this.settings.responseTarget === "cursor" && !editor) {
+			new Notice("No editor open, writing the response to a new note");
+		}
+
+		const writer = editor
+			? createEditorWriter(editor)
+			: await this.createResponseNote(details);
+
+		new Notice(`Sending prompt to ${this.settings.llmModel}...`);
+		try {
+			await streamChatResponse(
+				this.settings,
+				[{ role: "user", content: promptContent }],
+				writer.write
+			);
+		} finally {
+			await writer.finish();
+		}
+	}
+
+	/**
+	 * Get a free path for a note in the response folder, creating the folder
+	 * if needed and adding a number to the name if a note with it exists
+	 */
+	async getResponsePath(baseName: string): Promise<string> {
+		const path = normalizePath(
+			`${this.settings.responseFolder}/${baseName}.md`
+		);
+		await this.ensureFolder(getParentPath(path));
+		return this.getAvailablePath(path);
+	}
+
+	/**
+	 * Get the path itself if no file exists at it, or else the path with the
+	 * lowest free number added to the name, like "Note 2.md"
+	 */
+	getAvailablePath(path: string): string {
+		const dot = path.lastIndexOf(".");
+		const hasExtension = dot > path.lastIndexOf("/");
+		const stem = hasExtension ? path.slice(0, dot) : path;
+		const extension = hasExtension ? path.slice(dot) : "";
+
+		let available = path;
+		for (
+			let number = 2;
+			this.app.vault.getAbstractFileByPath(available);
+			number++
+		) {
+			available = `${stem} ${number}${extension}`;
+		}
+		return available;
+	}
+
+	/**
+	 * Create a folder and its parent folders, if they don't exist
+	 */
+	async ensureFolder(folder: string) {
+		let path = "";
+		for (const part of normalizePath(folder).split("/")) {
+			if (part === "") {
+				continue;
+			}
+			path = path ? `${path}/${part}` : part;
+
+			const existing = this.app.vault.getAbstractFileByPath(path);
+			if (existing instanceof TFile) {
+				throw new Error(`"${path}" is a file, not a folder`);
+			}
+			if (!existing) {
+				await this.app.vault.createFolder(path);
+			}
+		}
+	}
+
+	/**
+	 * Save the prompt to the file named by the file name pattern in the
+	 * output folder, overwriting, appending to or numbering an existing file
+	 * as set in the settings
+	 */
+	async savePromptToFile(
+		promptContent: string,
+		details: OutputDetails
+	): Promise<TFile> {
+		// Characters that can't be in file names are replaced, but slashes
+		// are kept so the pattern can name subfolders
+		const fileName = expandVariables(
+			this.settings.outputFileName || DEFAULT_SETTINGS.outputFileName,
+			details.variables
+		)
+			.replace(/[\\:*?"<>|]/g, "-")
+			.trim();
+		let path = normalizePath(`${this.settings.outputFolder}/${fileName}`);
+		if (!/\.[^/.]+$/.test(path)) {
+			path += ".md";
+		}
+		await this.ensureFolder(getParentPath(path));
+
+		const existing = this.app.vault.getAbstractFileByPath(path);
+		if (existing && !(existing instanceof TFile)) {
+			throw new Error(`"${path}" is a folder`);
+		}
+
+		if (existing && this.settings.outputConflict === "append") {
+			await this.app.vault.append(existing, `\n\n${promptContent}`);
+			return existing;
+		}
+
+		if (!existing || this.settings.outputConflict === "increment") {
+			path = this.getAvailablePath(path);
+		}
+		const content =
+			(this.settings.outputFrontmatter && path.endsWith(".md")
+				? formatFrontmatter(this.getOutputProperties(details, path))
+				: "") + promptContent;
+
+		if (existing && this.settings.outputConflict === "overwrite") {
+			await this.app.vault.modify(existing, content);
+			return existing;
+		}
+		return this.app.vault.create(path, content);
+	}
+
+	/**
+	 * Properties recording the source, template and included files of a note
+	 * created at `path`
+	 */
+	getOutputProperties(
+		details: OutputDetails,
+		path: string
+	): { [key: string]: unknown } {
+		return {
+			source: details.description,
+			template: details.templateKey,
+			files: details.files.map((file) =>
+				this.app.fileManager.generateMarkdownLink(file, path)
+			),
+			created: moment().format("YYYY-MM-DDTHH:mm"),
+		};
+	}
+
+	/**
+	 * Frontmatter recording the model, template and included files of a
+	 * response note at `path`. The API key is never included.
+	 */
+	createResponseFrontmatter(details: OutputDetails, path: string): string {
+		return formatFrontmatter({
+			model: this.settings.llmModel,
+			...this.getOutputProperties(details, path),
+		});
+	}
+
+	/**
+	 * Create a note for a response, recording the model, template and
+	 * included files in its frontmatter, and open it to show the response as
+	 * it streams in
+	 */
+	async createResponseNote(details: OutputDetails): Promise<ResponseWriter> {
+		const path = await this.getResponsePath(
+			`${details.sourceFile.basename} (LLM response)`
+		);
+		const header = this.createResponseFrontmatter(details, path);
+
+		const file = await this.app.vault.create(path, header);
+		await this.app.workspace.getLeaf("tab").openFile(file);
+
+		// Append the response in batches, as appending every chunk would be
+		// slow. Appends run one after another, so they land in order, and
+		// leave what's typed in the note meanwhile in place.
+		let pending = "";
+		let timer: number | undefined;
+		let appending = Promise.resolve();
+		const flush = () => {
+			timer = undefined;
+			const text = pending;
+			pending = "";
+			if (text) {
+				appending = appending.then(() =>
+					this.app.vault.append(file, text)
+				);
+			}
+			return appending;
+		};
+
+		return {
+			write: (text: string) => {
+				pending += text;
+				if (timer === undefined) {
+					timer = window.setTimeout(flush, 250);
+				}
+			},
+			finish: async () => {
+				window.clearTimeout(timer);
+				await flush();
+			},
+		};
+	}
+
+	async loadSettings() {
+		const {
+			outputOption,
+			templateOptions,
+			instructionTemplates,
+			promptHistory,
+			...data
+		}: SavedSettings = (await this.loadData()) ?? {};
+
+		// Older versions had a single output option instead of a list of
+		// output actions
+		if (outputOption && !data.outputActions) {
+			data.outputActions = [outputOption];
+		}
+
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+		// Copied so editing a system instruction doesn't change the default
+		this.settings.systemPrompts = { ...this.settings.systemPrompts };
+
+		// Older versions stored templates as their instruction text, with
+		// their options in a separate map. Templates are copied so editing
+		// them doesn't change the defaults.
+		const templates =
+			instructionTemplates ?? DEFAULT_SETTINGS.instructionTemplates;
+		this.settings.instructionTemplates = {};
+		for (const key of Object.keys(templates)) {
+			const template = templates[key];
+			this.settings.instructionTemplates[key] =
+				typeof template === "string"
+					? { ...templateOptions?.[key], instruction: template }
+					: { ...template };
+		}
+
+		// Older versions used the template key in command ids
+		const commandIds: string[] = [];
+		for (const template of Object.values(
+			this.settings.instructionTemplates
+		)) {
+			if (template.commandId) {
+				commandIds.push(template.commandId);
+			}
+		}
+		for (const key of Object.keys(this.settings.instructionTemplates)) {
+			const template = this.settings.instructionTemplates[key];
+			if (!template.commandId) {
+				template.commandId = createCommandId(key, commandIds);
+				commandIds.push(template.commandId);
+			}
+		}
+
+		// Older versions kept the history with the settings
+		await this.loadHistory(promptHistory);
+	}
+
+	async saveSettings() {
+		await this.saveData(this.settings);
+		// Re-register commands to ensure they're up to date with any template changes
+		this.registerCommands();
+	}
+
+	/**
+	 * Register the commands of all templates. Commands of deleted templates
+	 * are removed, and those of renamed templates keep their id, so their
+	 * hotkeys stay bound.
+	 */
+	registerCommands() {
+		// Templates in the settings keep their command id. Templates stored
+		// as notes, and any duplicates, get one from their name.
+		const commandIds: { [templateKey: string]: string } = {};
+		const used: string[] = [];
+		for (const templateKey of this.getTemplateKeys()) {
+			const commandId =
+				this.settings.instructionTemplates[templateKey]?.commandId;
+			commandIds[templateKey] =
+				commandId &&
+				!used.includes(commandId) &&
+				!isReservedCommandId(commandId)
+					? commandId
+					: createCommandId(templateKey, used);
+			used.push(commandIds[templateKey]);
+		}
+
+		for (const commandId of Object.values(this.templateCommandIds)) {
+			if (!used.includes(commandId)) {
+				this.removeCommand(`generate-llm-context-${commandId}`);
+				this.removeCommand(
+					`generate-llm-context-selection-${commandId}`
+				);
+			}
+		}
+		this.templateCommandIds = commandIds;
+
+		// Adding a command with the id of an existing one replaces it, which
+		// updates the name of renamed templates
+		this.getTemplateKeys().forEach((templateKey) => {
+			const templateName = this.getTemplateName(templateKey);
+			const commandId = commandIds[templateKey];
+
+			this.addCommand({
+				id: `generate-llm-context-${commandId}`,
+				name: `Generate LLM Context (${templateName})`,
+				callback: () => this.generateLLMPrompt(templateKey),
+			});
+
+			this.addCommand({
+				id: `generate-llm-context-selection-${commandId}`,
+				name: `Generate LLM Context from Selection (${templateName})`,
+				editorCheckCallback: (checking, editor, ctx) => {
+					const selection = getSelectionScope(editor, ctx);
+					if (!selection) {
+						return false;
+					}
+
+					if (!checking) {
+						this.generateLLMPrompt(
+							templateKey,
+							undefined,
+							getFileSource(selection.file, selection)
+						);
+					}
+					return true;
+				},
+			});
+		});
+	}
+}
+
+// Command ids of the commands that aren't for a template, without the
+// "generate-llm-context-" prefix
+const RESERVED_COMMAND_IDS = [
+	"custom",
+	"note-template",
+	"folder",
+	"tag",
+	"search",
+];
+
+/**
+ * Whether a template command id would clash with the other commands,
+ * including the selection commands of other templates
+ */
+function isReservedCommandId(commandId: string): boolean {
+	return (
+		RESERVED_COMMAND_IDS.includes(commandId) ||
+		commandId.startsWith("selection-")
+	);
+}
+
+/**
+ * Command id for a template from its name, like "fix-grammar" for
+ * "Fix Grammar!", with a number added if the id is taken
+ */
+function createCommandId(name: string, taken: string[]): string {
+	let slug =
+		name
+			.toLowerCase()
+			.normalize("NFKD")
+			.replace(/[\u0300-\u036f]/g, "")
+			.replace(/[^a-z0-9]+/g, "-")
+			.replace(/^-+|-+$/g, "") || "template";
+	if (slug.startsWith("selection-")) {
+		slug = `template-${slug}`;
+	}
+
+	let commandId = slug;
+	for (
+		let number = 2;
+		taken.includes(commandId) || isReservedCommandId(commandId);
+		number++
+	) {
+		commandId = `${slug}-${number}`;
+	}
+	return commandId;
+}
+
+/**
+ * Why a name can't be used for a template, whatever templates exist, or
+ * undefined if it can
+ */
+function checkTemplateName(name: string): string | undefined {
+	if (name.trim() === "") {
+		return "Enter a name";
+	}
+	if (name.toLowerCase() === "custom") {
+		return `"custom" is used for custom instructions`;
+	}
+	if (/[\\/:*?"<>|#^[\]]/.test(name)) {
+		return "Names can't contain any of \\ / : * ? \" < > | # ^ [ ]";
+	}
+	return undefined;
+}
+
+/**
+ * The key among keys that differs from name only in case, if any
+ */
+function findTemplateKey(name: string, keys: string[]): string | undefined {
+	return keys.find((key) => key.toLowerCase() === name.toLowerCase());
+}
+
+const TRUNCATION_PRIORITIES: TruncationPriority[] = [
+	"distance",
+	"size",
+	"recency",
+];
+
+const TRUNCATION_MARKER = "[... truncated to fit the token budget ...]";
+
+// Above this many line pairs, changed lines are listed without matching
+// them up, as finding the smallest diff would be slow
+const MAX_DIFF_CELLS = 4000000;
+
+/**
+ * Line diff of two texts, from the longest common subsequence of lines
+ */
+function diffLines(oldText: string, newText: string): DiffLine[] {
+	const oldLines = oldText.split("\n");
+	const newLines = newText.split("\n");
+
+	// Only the part between the common start and end needs comparing
+	let prefix = 0;
+	while (
+		prefix < oldLines.length &&
+		prefix < newLines.length &&
+		oldLines[prefix] === newLines[prefix]
+	) {
+		prefix++;
+	}
+	let suffix = 0;
+	while (
+		suffix < oldLines.length - prefix &&
+		suffix < newLines.length - prefix &&
+		oldLines[oldLines.length - 1 - suffix] ===
+			newLines[newLines.length - 1 - suffix]
+	) {
+		suffix++;
+	}
+
+	const a = oldLines.slice(prefix, oldLines.length - suffix);
+	const b = newLines.slice(prefix, newLines.length - suffix);
+	const same = (text: string): DiffLine => ({ type: "same", text });
+	const removed = (text: string): DiffLine => ({ type: "removed", text });
+	const added = (text: string): DiffLine => ({ type: "added", text });
+
+	let middle: DiffLine[];
+	if (a.length * b.length > MAX_DIFF_CELLS) {
+		middle = [...a.map(removed), ...b.map(added)];
+	} else {
+		// lengths[i * (b.length + 1) + j] is the LCS length of a[i:] and b[j:]
+		const width = b.length + 1;
+		const lengths = new Uint32Array((a.length + 1) * width);
+		for (let i = a.length - 1; i >= 0; i--) {
+			for (let j = b.length - 1; j >= 0; j--) {
+				lengths[i * width + j] =
+					a[i] === b[j]
+						? lengths[(i + 1) * width + j + 1] + 1
+						: Math.max(
+								lengths[(i + 1) * width + j],
+								lengths[i * width + j + 1]
+						  );
+			}
+		}
+
+		middle = [];
+		let i = 0;
+		let j = 0;
+		while (i < a.length && j < b.length) {
+			if (a[i] === b[j]) {
+				middle.push(same(a[i]));
+				i++;
+				j++;
+			} else if (
+				lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]
+			) {
+				middle.push(removed(a[i++]));
+			} else {
+				middle.push(added(b[j++]));
+			}
+		}
+		middle.push(...a.slice(i).map(removed), ...b.slice(j).map(added));
+	}
+
+	return [
+		...oldLines.slice(0, prefix).map(same),
+		...middle,
+		...oldLines.slice(oldLines.length - suffix).map(same),
+	];
+}
+
+/**
+ * Read a template from imported JSON or the frontmatter of a template note,
+ * keeping only the settings with valid values. In notes, the exclusion rules
+ * are separate properties, like `excludeFolders`.
+ */
+function parseTemplate(
+	raw: { [key: string]: unknown },
+	instruction: string
+): InstructionTemplate {
+	const text = (value: unknown) =>
+		typeof value === "string" && value.trim() !== ""
+			? value.trim()
+			: undefined;
+	const count = (value: unknown) => {
+		const number =
+			typeof value === "number" ? value : parseInt(String(value), 10);
+		return isNaN(number) || number < 0 ? undefined : Math.floor(number);
+	};
+	// A list, or a comma-separated string
+	const list = (value: unknown) =>
+		Array.isArray(value)
+			? value.map(String)
+			: typeof value === "string"
+			? value
+					.split(",")
+					.map((item) => item.trim())
+					.filter((item) => item !== "")
+			: undefined;
+
+	const template: InstructionTemplate = { instruction };
+
+	const description = text(raw.description);
+	if (description) {
+		template.description = description;
+	}
+
+	const systemPrompt = text(raw.systemPrompt);
+	if (systemPrompt) {
+		template.systemPrompt = systemPrompt;
+	}
+
+	const promptFormat = text(raw.promptFormat);
+	if (promptFormat && promptFormat in PROMPT_FORMATS) {
+		template.promptFormat = promptFormat as PromptFormatId;
+	}
+
+	const outputActions = list(raw.outputActions);
+	if (outputActions) {
+		template.outputActions = outputActions.filter(
+			(action): action is OutputAction =>
+				OUTPUT_ACTIONS.includes(action as OutputAction)
+		);
+	}
+
+	const linkDepth = count(raw.linkDepth);
+	if (linkDepth) {
+		template.linkDepth = Math.min(linkDepth, 10);
+	}
+
+	const backlinksMode = text(raw.backlinksMode);
+	if (
+		backlinksMode === "off" ||
+		backlinksMode === "note" ||
+		backlinksMode === "paragraph"
+	) {
+		template.backlinksMode = backlinksMode;
+	}
+
+	const tokenBudget = count(raw.tokenBudget);
+	if (tokenBudget !== undefined) {
+		template.tokenBudget = tokenBudget;
+	}
+
+	const rules =
+		typeof raw.exclusionRules === "object" && raw.exclusionRules !== null
+			? (raw.exclusionRules as { [key: string]: unknown })
+			: {
+					folders: raw.excludeFolders,
+					globs: raw.excludeGlobs,
+					tags: raw.excludeTags,
+					maxSizeKb: raw.excludeMaxSizeKb,
+			  };
+	const exclusionRules: ExclusionRules = {
+		folders: list(rules.folders) ?? [],
+		globs: list(rules.globs) ?? [],
+		tags: list(rules.tags) ?? [],
+		maxSizeKb: count(rules.maxSizeKb) ?? 0,
+	};
+	if (
+		exclusionRules.folders.length > 0 ||
+		exclusionRules.globs.length > 0 ||
+		exclusionRules.tags.length > 0 ||
+		exclusionRules.maxSizeKb > 0
+	) {
+		template.exclusionRules = exclusionRules;
+	}
+
+	return template;
+}
+
+/**
+ * Format properties as a frontmatter block, followed by a blank line
+ */
+function formatFrontmatter(properties: { [key: string]: unknown }): string {
+	return `---\n${stringifyYaml(properties)}---\n\n`;
+}
+
+/**
+ * Path of the folder containing a file, empty for the vault root
+ */
+function getParentPath(path: string): string {
+	const slash = path.lastIndexOf("/");
+	return slash === -1 ? "" : path.slice(0, slash);
+}
+
+/**
+ * The main, linked and backlinking files included in a prompt
+ */
+function getContextFiles(context: PromptContext): TFile[] {
+	return [
+		...context.mainFiles,
+		...context.linkedFiles,
+		...context.backlinks,
+	].map((entry) => entry.file);
+}
+
+/**
+ * Render the prompt from its parts in the given format
+ */
+function renderPrompt(context: PromptContext, format: PromptFormat): string {
+	return format.render(buildPromptSections(context));
+}
+
+/**
+ * Identifies a linked file in a prompt: its path, and the heading or block
+ * for excerpts
+ */
+function getLinkedFileKey(entry: LinkedFileEntry): string {
+	return entry.file.path + (entry.excerpt ? entry.excerpt.subpath : "");
+}
+
+/**
+ * Render a single file of the Linked Files section in the given format
+ */
+function renderLinkedFile(
+	linkedFile: LinkedFileEntry,
+	format: PromptFormat
+): string {
+	return format.renderFile(linkedFileToPromptFile(linkedFile));
+}
+
+/**
+ * Expand {{name}} and {{name:argument}} variables in a system prompt or
+ * instruction. Unknown variables are left as-is.
+ */
+function expandVariables(text: string, resolve: VariableResolver): string {
+	return text.replace(
+		/\{\{\s*([\w.-]+)(?::([^}]*))?\s*\}\}/g,
+		(match: string, name: string, argument?: string) => {
+			const value = resolve(name, argument?.trim());
+			return value === undefined ? match : value;
+		}
+	);
+}
+
+/**
+ * Split the prompt into its sections, with the system instruction first
+ */
+function buildPromptSections(context: PromptContext): PromptSection[] {
+	const sections: PromptSection[] = [{ key: "system", text: context.system }];
+
+	// Add user instruction if provided
+	if (context.instruction.trim() !== "") {
+		sections.push({ key: "instruction", text: context.instruction });
+	}
+
+	// Add main content section
+	sections.push({
+		key: "mainContent",
+		files: context.mainFiles.map(mainFileToPromptFile),
+	});
+
+	// Add linked files section
+	sections.push({
+		key: "linkedFiles",
+		files: context.linkedFiles.map(linkedFileToPromptFile),
+		emptyText: "No linked files found.",
+	});
+
+	// Add backlinks section if backlinks were collected
+	if (context.backlinks.length > 0) {
+		sections.push({
+			key: "backlinks",
+			files: context.backlinks.map(backlinkToPromptFile),
+		});
+	}
+
+	// Add unresolved links section if any links could not be resolved
+	if (context.unresolvedLinks.length > 0) {
+		sections.push({
+			key: "unresolvedLinks",
+			items: context.unresolvedLinks.map(
+				(unresolved) =>
+					`[[${unresolved.link}]] (in ${unresolved.source}${
+						unresolved.reason ? `, ${unresolved.reason}` : ""
+					})`
+			),
+		});
+	}
+
+	// Add excluded files section if linked files were left out by the rules
+	if (context.excludedFiles.length > 0) {
+		sections.push({
+			key: "excludedFiles",
+			items: context.excludedFiles.map(
+				(excluded) =>
+					`[[${excluded.file.basename}]] (linked from ${excluded.source})`
+			),
+		});
+	}
+
+	// Add truncation summary if linked files or backlinks were cut to fit the
+	// token budget
+	if (context.truncation) {
+		const { budget, originalTokens, trimmed, dropped } = context.truncation;
+
+		let summary = `The prompt was estimated at ~${originalTokens} tokens and was truncated to fit a budget of ${budget} tokens.`;
+		if (trimmed.length > 0) {
+			summary += `\nTrimmed:`;
+			for (const { entry, tokens, keptTokens } of trimmed) {
+				summary += `\n- ${entry.file.path}: kept ~${keptTokens} of ~${tokens} tokens`;
+			}
+		}
+		if (dropped.length > 0) {
+			summary += `\nDropped:`;
+			for (const { entry, tokens } of dropped) {
+				summary += `\n- ${entry.file.path}: ~${tokens} tokens`;
+			}
+		}
+
+		sections.push({ key: "truncationSummary", text: summary });
+	}
+
+	return sections;
+}
+
+/**
+ * Format a frontmatter property value as text, joining lists with commas
+ */
+function formatPropertyValue(value: unknown): string {
+	if (value === undefined || value === null) {
+		return "";
+	}
+	if (Array.isArray(value)) {
+		return value.join(", ");
+	}
+	return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * The Properties field of a file, if its frontmatter was moved out of the
+ * content
+ */
+function propertiesFields(properties?: string): PromptField[] {
+	return properties
+		? [{ key: "properties", label: "Properties", value: properties }]
+		: [];
+}
+
+function mainFileToPromptFile(mainFile: MainFileEntry): PromptFile {
+	const fields: PromptField[] = [
+		{ key: "path", label: "File Path", value: mainFile.file.path },
+	];
+
+	if (mainFile.selection) {
+		fields.push({
+			key: "excerpt",
+			label: "Excerpt",
+			value: "selected text only (partial file)",
+		});
+		if (mainFile.selection.headingPath.length > 0) {
+			fields.push({
+				key: "headingPath",
+				label: "Heading Path",
+				value: mainFile.selection.headingPath.join(" > "),
+			});
+		}
+	}
+	fields.push(...propertiesFields(mainFile.properties));
+
+	return {
+		name: mainFile.file.basename,
+		fields,
+		content: mainFile.content,
+	};
+}
+
+function backlinkToPromptFile(backlink: BacklinkEntry): PromptFile {
+	return {
+		name: backlink.file.basename,
+		fields: [
+			{ key: "path", label: "File Path", value: backlink.file.path },
+			{
+				key: "mentions",
+				label: "Mentions",
+				value:
+					String(backlink.mentions) +
+					(backlink.paragraphsOnly
+						? " (mentioning paragraphs only)"
+						: ""),
+			},
+			...propertiesFields(backlink.properties),
+		],
+		content: backlink.content,
+	};
+}
+
+function linkedFileToPromptFile(linkedFile: LinkedFileEntry): PromptFile {
+	const fields: PromptField[] = [
+		{ key: "path", label: "File Path", value: linkedFile.file.path },
+	];
+
+	if (linkedFile.fileType) {
+		fields.push({
+			key: "fileType",
+			label: "File Type",
+			value: linkedFile.fileType,
+		});
+	}
+
+	fields.push({
+		key: "linkDistance",
+		label: "Link Distance",
+		value:
+			linkedFile.origin ??
+			`${linkedFile.depth} (${linkedFile.via.join(" → ")})`,
+	});
+
+	if (linkedFile.excerpt) {
+		fields.push({
+			key: "excerpt",
+			label: "Excerpt",
+			value: `${linkedFile.excerpt.description} only (partial file)`,
+		});
+	}
+	fields.push(...propertiesFields(linkedFile.properties));
+
+	return {
+		name: linkedFile.file.basename,
+		fields,
+		content: linkedFile.content,
+	};
+}
+
+/**
+ * An example section for the system instruction, showing the description of
+ * the section and, for sections of files, the structure of each file
+ */
+function exampleSection(key: SectionKey, format: PromptFormat): PromptSection {
+	const guide = SECTION_GUIDES[key];
+	const description = guide.description
+		.replace("{embedStart}", format.embedStart("filename"))
+		.replace("{embedEnd}", format.embedEnd("filename"));
+
+	if (!guide.file) {
+		return { key, text: description };
+	}
+
+	return {
+		key,
+		text: `${description}\n\nEach file is structured as:`,
+		files: [guide.file],
+	};
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;");
+}
+
+function escapeXmlAttribute(value: string): string {
+	return escapeHtml(value).replace(/"/g, "&quot;");
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * The original format: sections and files wrapped in ===== [... Start] =====
+ * and ===== [... End] ===== marker lines
+ */
+class DelimiterFormat implements PromptFormat {
+	id: PromptFormatId = "delimiter";
+	name = "Delimiters (===== [File Start] =====)";
+
+	render(sections: PromptSection[]): string {
+		return sections
+			.map((section) => this.renderSection(section))
+			.join("\n");
+	}
+
+	renderFile(file: PromptFile): string {
+		let block = `File Name: ${file.name}\n`;
+		for (const field of file.fields) {
+			block += `${field.label}: ${field.value}\n`;
+		}
+		block += `===== [File Start] =====\n`;
+		block += `${file.content}\n`;
+		block += `===== [File End] =====\n`;
+		return block;
+	}
+
+	embedStart(label: string): string {
+		return `===== [Embed Start: ${label}] =====`;
+	}
+
+	embedEnd(label: string): string {
+		return `===== [Embed End: ${label}] =====`;
+	}
+
+	describeStructure(): string {
+		return `The data is structured with specific format markers:\n\n${SECTION_KEYS.filter(
+			(key) => key !== "system"
+		)
+			.map((key) => this.renderSection(exampleSection(key, this)))
+			.join("\n")}`;
+	}
+
+	parseSections(prompt: string): Partial<Record<SectionKey, string>> {
+		const sections: Partial<Record<SectionKey, string>> = {};
+
+		// First, remove the SYSTEM section entirely, as it contains example markers
+		const cleanedContent = prompt.replace(
+			new RegExp(
+				`${escapeRegExp(
+					this.marker("system", "Start")
+				)}\\n[\\s\\S]*?${escapeRegExp(
+					this.marker("system", "End")
+				)}\\n\\n?`
+			),
+			""
+		);
+
+		for (const key of SECTION_KEYS) {
+			const match = cleanedContent.match(
+				new RegExp(
+					`${escapeRegExp(
+						this.marker(key, "Start")
+					)}\\n([\\s\\S]*?)${escapeRegExp(this.marker(key, "End"))}`
+				)
+			);
+			if (match && key !== "system") {
+				sections[key] = match[1];
+			}
+		}
+
+		return sections;
+	}
+
+	highlight(html: string): string {
+		return html
+			.replace(
+				/(===== \[[^\]\n]+\] =====)/g,
+				'<span style="color:var(--text-accent);font-weight:bold;">$1</span>'
+			)
+			.replace(
+				/^(File Name: [^\n]+)/gm,
+				'<span style="color:var(--text-success);font-weight:bold;">$1</span>'
+			);
+	}
+
+	private marker(key: SectionKey, edge: "Start" | "End"): string {
+		const { title } = SECTION_GUIDES[key];
+
+		// The system and instruction markers are written in capitals
+		return key === "system" || key === "instruction"
+			? `===== [${title.toUpperCase()} ${edge.toUpperCase()}] =====`
+			: `===== [${title} ${edge}] =====`;
+	}
+
+	private renderSection(section: PromptSection): string {
+		let body = "";
+		if (section.text !== undefined) {
+			// Separate text from the files following it by a blank line
+			body += section.files?.length
+				? `${section.text}\n\n`
+				: `${section.text}\n`;
+		}
+		for (const item of section.items ?? []) {
+			body += `- ${item}\n`;
+		}
+		for (const file of section.files ?? []) {
+			body += this.renderFile(file);
+		}
+		if (section.files?.length === 0 && section.emptyText) {
+			body += `${section.emptyText}\n`;
+		}
+
+		return `${this.marker(section.key, "Start")}\n${body}${this.marker(
+			section.key,
+			"End"
+		)}\n`;
+	}
+}
+
+/**
+ * Sections wrapped in XML-style tags, with each file in a
+ * <document name="..." path="..."> tag
+ */
+class XmlFormat implements PromptFormat {
+	id: PromptFormatId = "xml";
+	name = 'XML tags (<document path="...">)';
+
+	render(sections: PromptSection[]): string {
+		return sections
+			.map((section) => this.renderSection(section))
+			.join("\n");
+	}
+
+	renderFile(file: PromptFile): string {
+		const attributes = [{ key: "name", value: file.name }, ...file.fields]
+			.map(
+				({ key, value }) =>
+					`${this.toTagName(key)}="${escapeXmlAttribute(value)}"`
+			)
+			.join(" ");
+
+		return `<document ${attributes}>\n${this.escapeTags(
+			file.content
+		)}\n</document>\n`;
+	}
+
+	embedStart(label: string): string {
+		return `<embed name="${escapeXmlAttribute(label)}">`;
+	}
+
+	embedEnd(label: string): string {
+		return `</embed>`;
+	}
+
+	describeStructure(): string {
+		return `The data is structured with XML-style tags:\n\n${SECTION_KEYS.filter(
+			(key) => key !== "system"
+		)
+			.map((key) => this.renderSection(exampleSection(key, this)))
+			.join("\n")}`;
+	}
+
+	parseSections(prompt: string): Partial<Record<SectionKey, string>> {
+		const sections: Partial<Record<SectionKey, string>> = {};
+
+		// First, remove the system tag entirely, as it contains example tags
+		const systemEnd = prompt.indexOf("</system>");
+		const cleanedContent =
+			systemEnd === -1
+				? prompt
+				: prompt.slice(systemEnd + "</system>".length);
+
+		// The tags only appear as tags, as those in the text are escaped
+		for (const key of SECTION_KEYS) {
+			const tag = this.toTagName(key);
+			const start = cleanedContent.indexOf(`<${tag}>\n`);
+			const end = cleanedContent.indexOf(`</${tag}>`, start);
+			if (key !== "system" && start !== -1 && end !== -1) {
+				sections[key] = cleanedContent.slice(
+					start + tag.length + 3,
+					end
+				);
+			}
+		}
+
+		return sections;
+	}
+
+	highlight(html: string): string {
+		return html.replace(
+			/(&lt;\/?(?:instruction|main_content|linked_files|backlinks|unresolved_links|excluded_files|truncation_summary|document|embed)(?: [^\n]*?)?&gt;)/g,
+			'<span style="color:var(--text-accent);font-weight:bold;">$1</span>'
+		);
+	}
+
+	private toTagName(key: string): string {
+		return key.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`);
+	}
+
+	/**
+	 * Escape the section and document tags in text, like a note about
+	 * prompts containing </main_content>, so they can't end a section early
+	 */
+	private escapeTags(text: string): string {
+		return text.replace(
+			/<(\/?(?:instruction|main_content|linked_files|backlinks|unresolved_links|excluded_files|truncation_summary|document|system)\b)/g,
+			"&lt;$1"
+		);
+	}
+
+	private renderSection(section: PromptSection): string {
+		const tag = this.toTagName(section.key);
+		// The system instruction shows the tags as examples
+		const escape = (text: string) =>
+			section.key === "system" ? text : this.escapeTags(text);
+
+		let body = "";
+		if (section.text !== undefined) {
+			// Separate text from the files following it by a blank line
+			body += section.files?.length
+				? `${escape(section.text)}\n\n`
+				: `${escape(section.text)}\n`;
+		}
+		for (const item of section.items ?? []) {
+			body += `- ${escape(item)}\n`;
+		}
+		for (const file of section.files ?? []) {
+			body += this.renderFile(file);
+		}
+		if (section.files?.length === 0 && section.emptyText) {
+			body += `${section.emptyText}\n`;
+		}
+
+		return `<${tag}>\n${body}</${tag}>\n`;
+	}
+}
+
+/**
+ * Sections as top-level Markdown headings, files as second-level headings
+ * with their content in a fenced code block
+ */
+class MarkdownFormat implements PromptFormat {
+	id: PromptFormatId = "markdown";
+	name = "Markdown headings";
+
+	render(sections: PromptSection[]): string {
+		return sections
+			.map((section) => this.renderSection(section))
+			.join("\n");
+	}
+
+	renderFile(file: PromptFile): string {
+		const fence = codeFence(file.content);
+
+		let block = `## ${file.name}\n\n`;
+		if (file.fields.length > 0) {
+			block += file.fields
+				.map((field) => `- ${field.label}: ${field.value}`)
+				.join("\n");
+			block += "\n\n";
+		}
+		block += `${fence}markdown\n${file.content}\n${fence}\n`;
+		return block;
+	}
+
+	embedStart(label: string): string {
+		return `<!-- Embed Start: ${label} -->`;
+	}
+
+	embedEnd(label: string): string {
+		return `<!-- Embed End: ${label} -->`;
+	}
+
+	describeStructure(): string {
+		const examples = SECTION_KEYS.filter((key) => key !== "system")
+			.map((key) => this.renderSection(exampleSection(key, this)))
+			.join("\n");
+
+		// Fence the examples so their headings aren't mistaken for real sections
+		return `The data is structured with Markdown headings, one top-level heading per section:\n\n\`\`\`\`markdown\n${examples}\`\`\`\``;
+	}
+
+	parseSections(prompt: string): Partial<Record<SectionKey, string>> {
+		const sections: Partial<Record<SectionKey, string>> = {};
+		const keysByTitle: { [title: string]: SectionKey } = {};
+		for (const key of SECTION_KEYS) {
+			keysByTitle[SECTION_GUIDES[key].title] = key;
+		}
+
+		let currentKey: SectionKey | null = null;
+		let currentLines: string[] = [];
+		let fence: string | null = null;
+
+		const finishSection = () => {
+			if (currentKey && currentKey !== "system") {
+				sections[currentKey] = currentLines.join("\n").trim() + "\n";
+			}
+		};
+
+		for (const line of prompt.split("\n")) {
+			// Section headings only count outside of fenced blocks
+			const fenceMatch = line.match(/^(`{3,})/);
+			if (fence) {
+				if (
+					fenceMatch &&
+					fenceMatch[1].length >= fence.length &&
+					line.trim() === fenceMatch[1]
+				) {
+					fence = null;
+				}
+			} else if (fenceMatch) {
+				fence = fenceMatch[1];
+			} else {
+				const headingMatch = line.match(/^# (.+)$/);
+				if (headingMatch && keysByTitle[headingMatch[1]]) {
+					finishSection();
+					currentKey = keysByTitle[headingMatch[1]];
+					currentLines = [];
+					continue;
+				}
+			}
+
+			currentLines.push(line);
+		}
+		finishSection();
+
+		return sections;
+	}
+
+	highlight(html: string): string {
+		return html.replace(
+			/^(#{1,2} [^\n]+)$/gm,
+			'<span style="color:var(--text-accent);font-weight:bold;">$1</span>'
+		);
+	}
+
+	private renderSection(section: PromptSection): string {
+		const parts: string[] = [];
+		if (section.text !== undefined) {
+			parts.push(section.text);
+		}
+		if (section.items && section.items.length > 0) {
+			parts.push(section.items.map((item) => `- ${item}`).join("\n"));
+		}
+		if (section.files?.length === 0 && section.emptyText) {
+			parts.push(section.emptyText);
+		}
+		for (const file of section.files ?? []) {
+			parts.push(this.renderFile(file).replace(/\n$/, ""));
+		}
+
+		return `# ${SECTION_GUIDES[section.key].title}\n\n${parts.join(
+			"\n\n"
+		)}\n`;
+	}
+}
+
+/**
+ * A JSON object with one key per section, for processing by scripts
+ */
+class JsonFormat implements PromptFormat {
+	id: PromptFormatId = "json";
+	name = "JSON";
+
+	render(sections: PromptSection[]): string {
+		const payload: { [key: string]: unknown } = {};
+		for (const section of sections) {
+			if (section.files) {
+				payload[section.key] = section.files.map((file) =>
+					this.toObject(file)
+				);
+			} else if (section.items) {
+				payload[section.key] = section.items;
+			} else {
+				payload[section.key] = section.text ?? "";
+			}
+		}
+		return JSON.stringify(payload, null, 2);
+	}
+
+	renderFile(file: PromptFile): string {
+		return JSON.stringify(this.toObject(file), null, 2);
+	}
+
+	embedStart(label: string): string {
+		return `<!-- Embed Start: ${label} -->`;
+	}
+
+	embedEnd(label: string): string {
+		return `<!-- Embed End: ${label} -->`;
+	}
+
+	describeStructure(): string {
+		const keys = SECTION_KEYS.filter((key) => key !== "system").map(
+			(key) => {
+				const { text, files } = exampleSection(key, this);
+				let description = `"${key}": ${text}`;
+				if (files) {
+					description += `\n${this.renderFile(files[0])}`;
+				} else if (
+					key === "unresolvedLinks" ||
+					key === "excludedFiles"
+				) {
+					description += `\nIt is a list of strings.`;
+				}
+				return description;
+			}
+		);
+
+		return `The data is a JSON object. The "system" key holds these instructions, and the other keys are listed below. Sections of files are lists of objects.\n\n${keys.join(
+			"\n\n"
+		)}`;
+	}
+
+	parseSections(prompt: string): Partial<Record<SectionKey, string>> {
+		const sections: Partial<Record<SectionKey, string>> = {};
+
+		let payload: { [key: string]: unknown };
+		try {
+			payload = JSON.parse(prompt);
+		} catch {
+			return sections;
+		}
+
+		for (const key of SECTION_KEYS) {
+			const value = payload[key];
+			if (key === "system" || value === undefined) {
+				continue;
+			}
+			sections[key] =
+				typeof value === "string"
+					? value
+					: JSON.stringify(value, null, 2);
+		}
+
+		return sections;
+	}
+
+	highlight(html: string): string {
+		return html.replace(
+			/^(\s*)("\w+"):/gm,
+			'$1<span style="color:var(--text-accent);font-weight:bold;">$2</span>:'
+		);
+	}
+
+	private toObject(file: PromptFile): { [key: string]: string } {
+		const object: { [key: string]: string } = { name: file.name };
+		for (const field of file.fields) {
+			object[field.key] = field.value;
+		}
+		object.content = file.content;
+		return object;
+	}
+}
+
+const PROMPT_FORMATS: { [id in PromptFormatId]: PromptFormat } = {
+	delimiter: new DelimiterFormat(),
+	xml: new XmlFormat(),
+	markdown: new MarkdownFormat(),
+	json: new JsonFormat(),
+};
+
+const LLM_PROVIDERS: { [id in LLMProviderId]: LLMProvider } = {
+	openai: {
+		id: "openai",
+		name: "OpenAI-compatible",
+		defaultBaseUrl: "https://api.openai.com/v1",
+		createRequest: (settings, messages) => ({
+			url: `${getBaseUrl(settings)}/chat/completions`,
+			headers: settings.llmApiKey
+				? { Authorization: `Bearer ${settings.llmApiKey}` }
+				: ({} as { [name: string]: string }),
+			body: {
+				model: settings.llmModel,
+				messages,
+				stream: true,
+				...(settings.llmMaxTokens > 0
+					? { max_tokens: settings.llmMaxTokens }
+					: {}),
+			},
+		}),
+		parseEvent: (event) => {
+			if (event.error) {
+				throw new Error(event.error.message ?? "Unknown error");
+			}
+			return event.choices?.[0]?.delta?.content ?? undefined;
+		},
+	},
+	anthropic: {
+		id: "anthropic",
+		name: "Anthropic-compatible",
+		defaultBaseUrl: "https://api.anthropic.com",
+		createRequest: (settings, messages) => ({
+			url: `${getBaseUrl(settings)}/v1/messages`,
+			headers: {
+				"x-api-key": settings.llmApiKey,
+				"anthropic-version": "2023-06-01",
+				// Required for requests from the app rather than a server
+				"anthropic-dangerous-direct-browser-access": "true",
+			},
+			body: {
+				model: settings.llmModel,
+				messages,
+				stream: true,
+				// Required by the API
+				max_tokens:
+					settings.llmMaxTokens > 0 ? settings.llmMaxTokens : 4096,
+			},
+		}),
+		parseEvent: (event) => {
+			if (event.type === "error") {
+				throw new Error(event.error?.message ?? "Unknown error");
+			}
+			return event.type === "content_block_delta"
+				? event.delta?.text
+				: undefined;
+		},
+	},
+};
+
+/**
+ * Receives a response as it is streamed in
+ */
+interface ResponseWriter {
+	write(text: string): void;
+	finish(): Promise<void>;
+}
+
+function getBaseUrl(settings: LLMContextSettings): string {
+	return (
+		settings.llmBaseUrl.trim() ||
+		LLM_PROVIDERS[settings.llmProvider].defaultBaseUrl
+	).replace(/\/+$/, "");
+}
+
+/**
+ * Send messages to the configured endpoint, calling `onText` with each piece
+ * of the response as it arrives. Returns the whole response.
+ */
+async function streamChatResponse(
+	settings: LLMContextSettings,
+	messages: ChatMessage[],
+	onText: (text: string) => void,
+	signal?: AbortSignal
+): Promise<string> {
+	const provider = LLM_PROVIDERS[settings.llmProvider];
+	const request = provider.createRequest(settings, messages);
+
+	// requestUrl can't stream, so this uses fetch
+	const response = await fetch(request.url, {
+		method: "POST",
+		headers: { "Content-Type": "application/json", ...request.headers },
+		body: JSON.stringify(request.body),
+		signal,
+	});
+	if (!response.ok || !response.body) {
+		const body = await response.text();
+		throw new Error(
+			`The endpoint responded with ${response.status}: ${body.slice(
+				0,
+				200
+			)}`
+		);
+	}
+
+	const reader = response.body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = "";
+	let text = "";
+
+	// Server-sent events arrive as "data: {...}" lines, possibly split
+	// across chunks
+	const handleLine = (line: string) => {
+		const data = line.match(/^data:\s*(.*)$/)?.[1];
+		if (!data || data === "[DONE]") {
+			return;
+		}
+		const piece = provider.parseEvent(JSON.parse(data));
+		if (piece) {
+			text += piece;
+			onText(piece);
+		}
+	};
+
+	for (;;) {
+		const { done, value } = await reader.read();
+		if (done) {
+			break;
+		}
+		buffer += decoder.decode(value, { stream: true });
+		const lines = buffer.split("\n");
+		buffer = lines.pop() ?? "";
+		lines.forEach((line) => handleLine(line.trim()));
+	}
+	handleLine(buffer.trim());
+
+	return text;
+}
+
+/**
+ * Set or, with a null position, remove where a response streams into an
+ * editor
+ */
+const setResponsePosition = StateEffect.define<{
+	id: number;
+	pos: number | null;
+}>();
+
+/**
+ * Where responses stream into an editor by writer id, moved along with
+ * edits to the note so the response stays in one place
+ */
+const responsePositions = StateField.define<Map<number, number>>({
+	create: () => new Map(),
+	update(positions, transaction) {
+		let updated = positions;
+		if (!transaction.changes.empty) {
+			updated = new Map();
+			positions.forEach((pos, id) =>
+				updated.set(id, transaction.changes.mapPos(pos, 1))
+			);
+		}
+		for (const effect of transaction.effects) {
+			if (effect.is(setResponsePosition)) {
+				updated = new Map(updated);
+				const { id, pos } = effect.value;
+				if (pos === null) {
+					updated.delete(id);
+				} else {
+					updated.set(id, pos);
+				}
+			}
+		}
+		return updated;
+	},
+});
+
+let nextWriterId = 0;
+
+/**
+ * Write a response into the editor, in a new paragraph below the cursor.
+ * Writing stops when the note is closed or another note opens in its place.
+ */
+function createEditorWriter(editor: Editor): ResponseWriter {
+	// The CodeMirror view behind the editor
+	const view = (editor as Editor & { cm: EditorView }).cm;
+	const id = nextWriterId++;
+	const line = view.state.doc.lineAt(view.state.selection.main.head);
+	view.dispatch({
+		changes: { from: line.to, insert: "\n\n" },
+		effects: setResponsePosition.of({ id, pos: line.to + 2 }),
+	});
+
+	let closed = false;
+	const getPosition = () => {
+		const pos = view.dom.isConnected
+			? view.state.field(responsePositions, false)?.get(id)
+			: undefined;
+		if (pos === undefined && !closed) {
+			closed = true;
+			new Notice("The note was closed, the rest of the response is lost");
+		}
+		return pos;
+	};
+
+	return {
+		write: (text: string) => {
+			const pos = getPosition();
+			if (pos !== undefined) {
+				view.dispatch({ changes: { from: pos, insert: text } });
+			}
+		},
+		finish: async () => {
+			const pos = getPosition();
+			if (pos !== undefined) {
+				view.dispatch({
+					selection: { anchor: pos },
+					effects: setResponsePosition.of({ id, pos: null }),
+				});
+			}
+		},
+	};
+}
+
+/**
+ * A code fence longer than any run of backticks in the content
+ */
+function codeFence(content: string): string {
+	const longestRun = Math.max(
+		0,
+		...(content.match(/`+/g) ?? []).map((run) => run.length)
+	);
+	return "`".repeat(Math.max(3, longestRun + 1));
+}
+
+/**
+ * Get the alt text of a link to an image, like ![[photo.png|A sunset]] or
+ * ![A sunset](photo.png), ignoring sizes like ![[photo.png|300]]
+ */
+function getAltText(link: Reference): string | undefined {
+	const text = link.displayText?.trim();
+	if (
+		!text ||
+		text === link.link ||
+		/^\d+(x\d+)?$/.test(text) ||
+		link.original.startsWith(`![[${text}]]`)
+	) {
+		return undefined;
+	}
+	return text;
+}
+
+/**
+ * Render a canvas as an outline: its cards grouped by the groups containing
+ * them, from top to bottom, followed by the connections between cards
+ */
+function renderCanvasOutline(canvas: CanvasData): string {
+	const nodes = [...(canvas.nodes ?? [])].sort(
+		(a, b) => a.y - b.y || a.x - b.x
+	);
+
+	// Short name of a card, used for connections
+	const nameOf = (node: AllCanvasNodeData): string => {
+		switch (node.type) {
+			case "text": {
+				const firstLine = node.text.trim().split("\n")[0];
+				return firstLine.length > 60
+					? `"${firstLine.slice(0, 57)}..."`
+					: `"${firstLine}"`;
+			}
+			case "file":
+				return `[[${node.file}${node.subpath ?? ""}]]`;
+			case "link":
+				return node.url;
+			case "group":
+				return `group "${node.label ?? "Untitled"}"`;
+		}
+		return String((node as AllCanvasNodeData).type);
+	};
+
+	// Each card belongs to the smallest group containing it
+	const groups = nodes.filter((node) => node.type === "group");
+	const parentOf = (node: AllCanvasNodeData) =>
+		groups
+			.filter(
+				(group) =>
+					group !== node &&
+					group.x <= node.x &&
+					group.y <= node.y &&
+					group.x + group.width >= node.x + node.width &&
+					group.y + group.height >= node.y + node.height
+			)
+			.sort((a, b) => a.width * a.height - b.width * b.height)[0];
+
+	const lines: string[] = [];
+	const renderNodes = (
+		parent: AllCanvasNodeData | undefined,
+		indent: string
+	) => {
+		for (const node of nodes.filter((node) => parentOf(node) === parent)) {
+			switch (node.type) {
+				case "text":
+					lines.push(`${indent}- Card:`);
+					for (const line of node.text.trim().split("\n")) {
+						lines.push(`${indent}    ${line}`);
+					}
+					break;
+				case "file":
+					lines.push(`${indent}- File: ${nameOf(node)}`);
+					break;
+				case "link":
+					lines.push(`${indent}- Link: ${node.url}`);
+					break;
+				case "group":
+					lines.push(`${indent}- Group: ${node.label ?? "Untitled"}`);
+					renderNodes(node, `${indent}    `);
+					break;
+			}
+		}
+	};
+	renderNodes(undefined, "");
+
+	const nodesById = new Map(nodes.map((node) => [node.id, node]));
+	const connections = (canvas.edges ?? []).map((edge) => {
+		const from = nodesById.get(edge.fromNode);
+		const to = nodesById.get(edge.toNode);
+		const arrow =
+			edge.fromEnd === "arrow" ? "↔" : edge.toEnd === "none" ? "—" : "→";
+		return `- ${from ? nameOf(from) : "?"} ${arrow} ${
+			to ? nameOf(to) : "?"
+		}${edge.label ? ` (${edge.label})` : ""}`;
+	});
+
+	let outline = `Cards:\n${lines.join("\n") || "(empty canvas)"}`;
+	if (connections.length > 0) {
+		outline += `\n\nConnections:\n${connections.join("\n")}`;
+	}
+	return outline;
+}
+
+/**
+ * Render CSV as a Markdown table of at most `rowLimit` rows below the header.
+ * Without a delimiter, commas or semicolons are detected from the header.
+ */
+function renderCsvTable(
+	csv: string,
+	delimiter: string | undefined,
+	rowLimit: number
+): string {
+	const firstLine = csv.split("\n")[0];
+	const separator =
+		delimiter ??
+		((firstLine.match(/;/g) ?? []).length >
+		(firstLine.match(/,/g) ?? []).length
+			? ";"
+			: ",");
+
+	const rows = parseCsv(csv, separator);
+	if (rows.length === 0) {
+		return "(empty table)";
+	}
+
+	const columns = Math.max(...rows.map((row) => row.length));
+	const toRow = (cells: string[]) =>
+		`| ${Array.from({ length: columns }, (_, index) =>
+			(cells[index] ?? "").replace(/\|/g, "\\|").replace(/\n/g, " ")
+		).join(" | ")} |`;
+
+	const [header, ...body] = rows;
+	const shown = rowLimit > 0 ? body.slice(0, rowLimit) : body;
+
+	const lines = [
+		toRow(header),
+		`|${" --- |".repeat(columns)}`,
+		...shown.map(toRow),
+	];
+	if (shown.length < body.length) {
+		lines.push(
+			"",
+			`(${body.length - shown.length} more rows not shown, ${
+				body.length
+			} rows in total)`
+		);
+	}
+	return lines.join("\n");
+}
+
+/**
+ * Parse CSV into rows of cells, supporting quoted cells with delimiters,
+ * line breaks and "" escapes
+ */
+function parseCsv(csv: string, delimiter: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let cell = "";
+	let quoted = false;
+
+	for (let i = 0; i < csv.length; i++) {
+		const char = csv[i];
+
+		if (quoted) {
+			if (char === '"' && csv[i + 1] === '"') {
+				cell += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				cell += char;
+			}
+		} else if (char === '"' && cell === "") {
+			quoted = true;
+		} else if (char === delimiter) {
+			row.push(cell);
+			cell = "";
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && csv[i + 1] === "\n") {
+				i++;
+			}
+			row.push(cell);
+			rows.push(row);
+			row = [];
+			cell = "";
+		} else {
+			cell += char;
+		}
+	}
+
+	if (cell !== "" || row.length > 0) {
+		row.push(cell);
+		rows.push(row);
+	}
+
+	// Leave out blank lines
+	return rows.filter((cells) => cells.some((value) => value.trim() !== ""));
+}
+
+/**
+ * Extract the text of a PDF with Obsidian's copy of PDF.js, page by page
+ */
+async function extractPdfText(data: ArrayBuffer): Promise<string> {
+	const pdfjs = await loadPdfJs();
+	const pdf = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+
+	const pages: string[] = [];
+	for (let number = 1; number <= pdf.numPages; number++) {
+		const page = await pdf.getPage(number);
+		const textContent = await page.getTextContent();
+
+		let text = "";
+		for (const item of textContent.items as {
+			str?: string;
+			hasEOL?: boolean;
+		}[]) {
+			text += (item.str ?? "") + (item.hasEOL ? "\n" : "");
+		}
+
+		if (text.trim() !== "") {
+			pages.push(`[Page ${number}]\n${text.trim()}`);
+		}
+	}
+
+	return pages.length > 0
+		? pages.join("\n\n")
+		: "(No text could be extracted, the PDF may contain only scanned images)";
+}
+
+/**
+ * Replaces sensitive text with numbered placeholders like [EMAIL_1]. The same
+ * value gets the same placeholder in every file of a prompt.
+ */
+class Redactor {
+	private detectors: RedactionDetector[];
+	// Placeholders by detector label and value
+	private placeholders = new Map<string, string>();
+	private counters: { [label: string]: number } = {};
+	private report = new Map<string, RedactionReportEntry>();
+
+	constructor(detectors: RedactionDetector[]) {
+		this.detectors = detectors;
+	}
+
+	redact(text: string, filePath: string): string {
+		for (const detector of this.detectors) {
+			text = text.replace(
+				detector.pattern,
+				(match: string, ...args: unknown[]) => {
+					// The first capture group, if the pattern has one and it matched
+					const group =
+						typeof args[0] === "string" ? args[0] : undefined;
+					const value = group ?? match;
+					if (
+						value === "" ||
+						(detector.accept && !detector.accept(value)) ||
+						(detector.standalone && isInsideToken(match, args))
+					) {
+						return match;
+					}
+
+					const placeholder = this.getPlaceholder(
+						detector,
+						value,
+						filePath
+					);
+					return group === undefined
+						? placeholder
+						: match.replace(value, () => placeholder);
+				}
+			);
+		}
+		return text;
+	}
+
+	getReport(): RedactionReportEntry[] {
+		return Array.from(this.report.values());
+	}
+
+	private getPlaceholder(
+		detector: RedactionDetector,
+		value: string,
+		filePath: string
+	): string {
+		const key = `${detector.label}\n${value}`;
+		let placeholder = this.placeholders.get(key);
+		if (!placeholder) {
+			this.counters[detector.label] =
+				(this.counters[detector.label] ?? 0) + 1;
+			placeholder = `[${detector.label}_${
+				this.counters[detector.label]
+			}]`;
+			this.placeholders.set(key, placeholder);
+			this.report.set(placeholder, {
+				placeholder,
+				detector: detector.name,
+				files: [],
+				occurrences: 0,
+			});
+		}
+
+		const entry = this.report.get(placeholder) as RedactionReportEntry;
+		entry.occurrences++;
+		if (!entry.files.includes(filePath)) {
+			entry.files.push(filePath);
+		}
+		return placeholder;
+	}
+}
+
+/**
+ * Whether a file's content is binary data encoded as a data URL, like the
+ * images in JSON prompts
+ */
+function isDataUrl(content: string): boolean {
+	return /^data:[\w.+-]+\/[\w.+-]+;base64,/.test(content);
+}
+
+/**
+ * Whether a match continues a longer token: a letter, digit or base64
+ * character right before or after it, or a hyphen joining it to one, like
+ * in ORD-555-123-4567. `args` are the arguments after the
+ * match given to a String.replace callback, ending with the offset of the
+ * match and the whole text (and the named groups, if any).
+ */
+function isInsideToken(match: string, args: unknown[]): boolean {
+	const offsetIndex = args.findIndex((arg) => typeof arg === "number");
+	const offset = args[offsetIndex] as number;
+	const text = args[offsetIndex + 1] as string;
+	const tokenChar = /[A-Za-z0-9+/=_]/;
+	const continues = (char: string, next: string) =>
+		tokenChar.test(char) || (char === "-" && /[A-Za-z0-9]/.test(next));
+	const end = offset + match.length;
+	return (
+		continues(text.charAt(offset - 1), text.charAt(offset - 2)) ||
+		continues(text.charAt(end), text.charAt(end + 1))
+	);
+}
+
+/**
+ * Compile the pattern of a redaction rule, or null if it is not a valid
+ * regular expression
+ */
+function parseRedactionPattern(pattern: string): RegExp | null {
+	if (pattern === "") {
+		return null;
+	}
+	try {
+		return new RegExp(pattern, "gm");
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Cut content down to roughly `targetTokens`, preferably at a line break,
+ * and mark it as truncated. Content that already fits is returned as-is.
+ */
+function trimToTokens(
+	content: string,
+	tokens: number,
+	targetTokens: number
+): string {
+	if (tokens <= targetTokens) {
+		return content;
+	}
+
+	let cut = Math.floor((content.length * targetTokens) / tokens);
+
+	const lineBreak = content.lastIndexOf("\n", cut);
+	if (lineBreak > cut / 2) {
+		cut = lineBreak;
+	}
+
+	return `${content.slice(0, cut).replace(/\s+$/, "")}\n${TRUNCATION_MARKER}`;
+}
+
+/**
+ * Get the selection of an editor as the scope of a prompt, or null if nothing
+ * is selected
+ */
+function getSelectionScope(
+	editor: Editor,
+	ctx: MarkdownView | MarkdownFileInfo
+): SelectionScope | null {
+	if (!ctx.file || !editor.somethingSelected()) {
+		return null;
+	}
+
+	return {
+		file: ctx.file,
+		fileContent: editor.getValue(),
+		start: editor.posToOffset(editor.getCursor("from")),
+		end: editor.posToOffset(editor.getCursor("to")),
+	};
+}
+
+/**
+ * The source for a prompt from a single file, or only the selected text of it
+ */
+function getFileSource(file: TFile, selection?: SelectionScope): ContextSource {
+	return {
+		description: selection
+			? `selection in "${file.basename}"`
+			: `file "${file.basename}"`,
+		mainFiles: [file],
+		otherFiles: [],
+		selection,
+	};
+}
+
+/**
+ * Get the Markdown files in a folder, optionally including subfolders
+ */
+function getFolderFiles(folder: TFolder, recursive: boolean): TFile[] {
+	const files: TFile[] = [];
+
+	for (const child of folder.children) {
+		if (child instanceof TFile && child.extension === "md") {
+			files.push(child);
+		} else if (recursive && child instanceof TFolder) {
+			files.push(...getFolderFiles(child, true));
+		}
+	}
+
+	return files;
+}
+
+/**
+ * Get all tags used in the vault, sorted alphabetically
+ */
+function getVaultTags(app: App): string[] {
+	const tags = new Set<string>();
+
+	for (const file of app.vault.getMarkdownFiles()) {
+		const cache = app.metadataCache.getFileCache(file);
+		for (const tag of (cache && getAllTags(cache)) ?? []) {
+			tags.add(tag);
+		}
+	}
+
+	return Array.from(tags).sort();
+}
+
+/**
+ * Get the Markdown files with a tag or one of its nested tags, ignoring case
+ * like Obsidian's tag search does
+ */
+function getTagFiles(app: App, tag: string): TFile[] {
+	return app.vault
+		.getMarkdownFiles()
+		.filter((file) => hasTag(app, file, tag));
+}
+
+/**
+ * Whether a file has a tag or one of its nested tags, ignoring case
+ */
+function hasTag(app: App, file: TFile, tag: string): boolean {
+	const target = (tag.startsWith("#") ? tag : `#${tag}`).toLowerCase();
+	const cache = app.metadataCache.getFileCache(file);
+
+	return ((cache && getAllTags(cache)) ?? []).some((fileTag) => {
+		const lowerTag = fileTag.toLowerCase();
+		return lowerTag === target || lowerTag.startsWith(`${target}/`);
+	});
+}
+
+/**
+ * Get the reason a file is excluded by any of the exclusion rules, e.g.
+ * `folder "Private"`, or null if it isn't excluded
+ */
+function getExclusionReason(
+	app: App,
+	file: TFile,
+	rulesList: ExclusionRules[]
+): string | null {
+	for (const rules of rulesList) {
+		for (const folder of rules.folders) {
+			const prefix = folder.replace(/^\/+|\/+$/g, "");
+			if (prefix !== "" && file.path.startsWith(`${prefix}/`)) {
+				return `folder "${prefix}"`;
+			}
+		}
+
+		for (const glob of rules.globs) {
+			if (glob !== "" && globToRegExp(glob).test(file.path)) {
+				return `pattern "${glob}"`;
+			}
+		}
+
+		for (const tag of rules.tags) {
+			if (tag !== "" && hasTag(app, file, tag)) {
+				return `tag ${tag.startsWith("#") ? tag : `#${tag}`}`;
+			}
+		}
+
+		if (rules.maxSizeKb > 0 && file.stat.size > rules.maxSizeKb * 1024) {
+			return `larger than ${rules.maxSizeKb} KB`;
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Convert a glob pattern to a regular expression matching whole paths:
+ * `**` matches any number of folders, `*` anything but a slash and `?` a
+ * single character other than a slash
+ */
+function globToRegExp(glob: string): RegExp {
+	let source = "";
+
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i];
+		if (char === "*" && glob[i + 1] === "*") {
+			// "**/" also matches no folder at all
+			if (glob[i + 2] === "/") {
+				source += "(?:.*/)?";
+				i += 2;
+			} else {
+				source += ".*";
+				i += 1;
+			}
+		} else if (char === "*") {
+			source += "[^/]*";
+		} else if (char === "?") {
+			source += "[^/]";
+		} else {
+			source += escapeRegExp(char);
+		}
+	}
+
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * Get the Markdown files matching a search query, ignoring case. Terms in
+ * square brackets match properties: [status] matches notes with a status
+ * property, [status:done] notes whose status contains "done". All other words
+ * and "quoted phrases" must appear in the path or content of the note.
+ */
+async function getQueryFiles(app: App, query: string): Promise<TFile[]> {
+	const properties: { key: string; value?: string }[] = [];
+	const text = query.replace(
+		/\[([^\]:]+)(?::([^\]]*))?\]/g,
+		(match: string, key: string, value?: string) => {
+			properties.push({
+				key: key.trim(),
+				value: value?.trim().toLowerCase(),
+			});
+			return " ";
+		}
+	);
+
+	const terms: string[] = [];
+	const termPattern = /"([^"]+)"|(\S+)/g;
+	let match: RegExpExecArray | null;
+	while ((match = termPattern.exec(text)) !== null) {
+		terms.push((match[1] ?? match[2]).toLowerCase());
+	}
+
+	const files: TFile[] = [];
+
+	for (const file of app.vault.getMarkdownFiles()) {
+		const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+		const matchesProperties = properties.every(({ key, value }) => {
+			const property = frontmatter?.[key];
+			if (property === undefined || property === null) {
+				return false;
+			}
+
+			const values: unknown[] = Array.isArray(property)
+				? property
+				: [property];
+			return (
+				value === undefined ||
+				values.some((item) =>
+					String(item).toLowerCase().includes(value)
+				)
+			);
+		});
+		if (!matchesProperties) {
+			continue;
+		}
+
+		if (terms.length > 0) {
+			const haystack = `${file.path}\n${await app.vault.cachedRead(
+				file
+			)}`.toLowerCase();
+			if (!terms.every((term) => haystack.includes(term))) {
+				continue;
+			}
+		}
+
+		files.push(file);
+	}
+
+	return files;
+}
+
+/**
+ * Sort files in a deterministic order: by path, or oldest first by modified or
+ * created time with the path as tie-breaker
+ */
+function sortFiles(files: TFile[], order: SourceOrder): TFile[] {
+	const time = (file: TFile) =>
+		order === "modified"
+			? file.stat.mtime
+			: order === "created"
+			? file.stat.ctime
+			: 0;
+
+	return [...files].sort(
+		(a, b) =>
+			time(a) - time(b) ||
+			(a.path < b.path ? -1 : a.path > b.path ? 1 : 0)
+	);
+}
+
+/**
+ * Get the headings a position in a file is located under, from outermost to
+ * innermost
+ */
+function getHeadingPath(
+	cache: CachedMetadata | null,
+	offset: number
+): string[] {
+	const path: HeadingCache[] = [];
+
+	for (const heading of cache?.headings ?? []) {
+		if (heading.position.start.offset > offset) {
+			break;
+		}
+
+		// A heading closes all headings of the same or a deeper level
+		while (
+			path.length > 0 &&
+			path[path.length - 1].level >= heading.level
+		) {
+			path.pop();
+		}
+		path.push(heading);
+	}
+
+	return path.map((heading) => heading.heading);
+}
+
+/**
+ * Get the outgoing links of a file from the metadata cache: frontmatter links
+ * first, followed by links and embeds in the body in document order. When an
+ * excerpt is given, only the links inside it are returned.
+ */
+function getOutgoingLinks(
+	app: App,
+	file: TFile,
+	excerpt?: Excerpt
+): Reference[] {
+	const cache = app.metadataCache.getFileCache(file);
+	if (!cache) {
+		return [];
+	}
+
+	const bodyLinks: ReferenceCache[] = [
+		...(cache.links ?? []),
+		...(cache.embeds ?? []),
+	]
+		.filter(
+			(link) =>
+				!excerpt ||
+				(link.position.start.offset >= excerpt.start &&
+					link.position.end.offset <= excerpt.end)
+		)
+		.sort((a, b) => a.position.start.offset - b.position.start.offset);
+
+	if (excerpt) {
+		return bodyLinks;
+	}
+
+	return [...(cache.frontmatterLinks ?? []), ...bodyLinks];
+}
+
+/**
+ * Extract the heading subtree or block a `#heading` / `#^block-id` subpath
+ * points to, or null if the file has no such heading or block
+ */
+function extractExcerpt(
+	content: string,
+	cache: CachedMetadata,
+	subpath: string
+): Excerpt | null {
+	const result = resolveSubpath(cache, subpath);
+	if (!result) {
+		return null;
+	}
+
+	let description: string;
+	switch (result.type) {
+		case "heading":
+			description = `heading "${result.current.heading}"`;
+			break;
+		case "block":
+			description = `block ^${result.block.id}`;
+			break;
+		case "footnote":
+			description = `footnote [^${result.footnote.id}]`;
+			break;
+	}
+
+	const start = result.start.offset;
+	const end = result.end ? result.end.offset : content.length;
+
+	return {
+		subpath,
+		description,
+		content: content.slice(start, end).trim(),
+		start,
+		end,
+	};
+}
+
+/**
+ * Modal for entering a custom instruction
+ */
+class CustomInstructionModal extends Modal {
+	private callback: (instruction: string) => void;
+	private instructionText: string = "";
+
+	constructor(app: App, callback: (instruction: string) => void) {
+		super(app);
+		this.callback = callback;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl("h2", { text: "Enter Custom Instruction" });
+
+		const textareaEl = contentEl.createEl("textarea", {
+			placeholder: "Enter your custom instruction for the LLM...",
+		});
+		textareaEl.style.width = "100%";
+		textareaEl.style.height = "200px";
+		textareaEl.style.marginBottom = "20px";
+
+		textareaEl.addEventListener("input", () => {
+			this.instructionText = textareaEl.value;
+		});
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Cancel")
+					.setCta()
+					.onClick(() => {
+						this.close();
+					})
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Generate")
+					.setCta()
+					.onClick(() => {
+						this.callback(this.instructionText);
+						this.close();
+					})
+			);
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+/**
+ * Modal for choosing which linked files to include before generating a prompt.
+ * Resolves with the selected files, or null if cancelled.
+ */
+class ContextSelectionModal extends Modal {
+	private plugin: LLMContextPlugin;
+	private mainFiles: MainFileEntry[];
+	private candidates: LinkedFileEntry[];
+	private selected: Set<LinkedFileEntry>;
+	private backlinks: BacklinkEntry[];
+	private selectedBacklinks: Set<BacklinkEntry>;
+	private excludedFiles: ExcludedFile[];
+	private tokenBudget: number;
+	private format: PromptFormat;
+	// Runs the redactor over the property values used in the system prompt
+	// and instruction
+	private redactVariables: (redactor: Redactor) => void;
+	private result: {
+		linkedFiles: LinkedFileEntry[];
+		backlinks: BacklinkEntry[];
+	} | null = null;
+
+	private listEl: HTMLElement;
+	private totalEl: HTMLElement;
+	private redactionEl: HTMLElement;
+
+	constructor(
+		app: App,
+		plugin: LLMContextPlugin,
+		mainFiles: MainFileEntry[],
+		linkedFiles: LinkedFileEntry[],
+		backlinks: BacklinkEntry[],
+		excludedFiles: ExcludedFile[],
+		tokenBudget: number,
+		format: PromptFormat,
+		redactVariables: (redactor: Redactor) => void
+	) {
+		super(app);
+		this.plugin = plugin;
+		this.mainFiles = mainFiles;
+		this.candidates = [...linkedFiles];
+		this.selected = new Set(linkedFiles);
+		this.backlinks = backlinks;
+		this.selectedBacklinks = new Set(backlinks);
+		this.excludedFiles = excludedFiles;
+		this.tokenBudget = tokenBudget;
+		this.format = format;
+		this.redactVariables = redactVariables;
+	}
+
+	onOpen() {
+		// Make the modal wider
+		const modalEl = this.contentEl.parentElement as HTMLElement;
+		if (modalEl) {
+			modalEl.style.width = "80vw";
+			modalEl.style.maxWidth = "800px";
+		}
+
+		const { contentEl } = this;
+		contentEl.createEl("h2", { text: "Select Context Files" });
+
+		this.listEl = contentEl.createDiv();
+		this.listEl.style.maxHeight = "60vh";
+		this.listEl.style.overflow = "auto";
+		this.listEl.style.border =
+			"1px solid var(--background-modifier-border)";
+		this.listEl.style.borderRadius = "4px";
+		this.listEl.style.marginBottom = "10px";
+
+		this.totalEl = contentEl.createDiv();
+		this.totalEl.style.fontWeight = "bold";
+		this.totalEl.style.marginBottom = "10px";
+
+		this.redactionEl = contentEl.createDiv();
+		this.redactionEl.style.marginBottom = "10px";
+
+		// Linked files left out by the exclusion rules can still be added by hand
+		if (this.excludedFiles.length > 0) {
+			const excludedEl = contentEl.createDiv({
+				text: `Excluded by rules (listed by name only): ${this.excludedFiles
+					.map(
+						(excluded) =>
+							`${excluded.file.path} (${excluded.reason})`
+					)
+					.join(", ")}`,
+			});
+			excludedEl.style.color = "var(--text-muted)";
+			excludedEl.style.fontSize = "0.85em";
+			excludedEl.style.marginBottom = "10px";
+		}
+
+		this.renderList();
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn.setButtonText("Add File...").onClick(() => {
+					new FileSuggestModal(
+						this.app,
+						this.app.vault
+							.getMarkdownFiles()
+							.filter(
+								(file) =>
+									!this.plugin.isExcluded(file) &&
+									!this.mainFiles.some(
+										(mainFile) => mainFile.file === file
+									) &&
+									!this.candidates.some(
+										(entry) =>
+											entry.file === file &&
+											!entry.excerpt
+									)
+							),
+						(file) => this.addFile(file)
+					).open();
+				})
+			)
+			.addButton((btn) =>
+				btn.setButtonText("Select All").onClick(() => {
+					this.selected = new Set(this.candidates);
+					this.selectedBacklinks = new Set(this.backlinks);
+					this.renderList();
+				})
+			)
+			.addButton((btn) =>
+				btn.setButtonText("Select None").onClick(() => {
+					this.selected.clear();
+					this.selectedBacklinks.clear();
+					this.renderList();
+				})
+			);
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Cancel")
+					.setCta()
+					.onClick(() => {
+						this.result = null;
+						this.close();
+					})
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Generate")
+					.setCta()
+					.onClick(() => {
+						this.result = {
+							linkedFiles: this.candidates.filter((entry) =>
+								this.selected.has(entry)
+							),
+							backlinks: this.backlinks.filter((backlink) =>
+								this.selectedBacklinks.has(backlink)
+							),
+						};
+						this.close();
+					})
+			);
+	}
+
+	private async addFile(file: TFile) {
+		const entry = await this.plugin.createAddedFileEntry(file);
+		this.candidates.push(entry);
+		this.selected.add(entry);
+		this.renderList();
+	}
+
+	private renderList() {
+		this.listEl.empty();
+
+		// The main files are always included
+		let totalTokens = 0;
+		for (const mainFile of this.mainFiles) {
+			const mainTokens = this.plugin.estimateTokens(mainFile.content);
+			this.renderRow(
+				mainFile.file.path,
+				"Main file",
+				mainFile.content.length,
+				mainTokens,
+				true,
+				null
+			);
+			totalTokens += mainTokens;
+		}
+
+		for (const entry of this.candidates) {
+			const tokens = this.plugin.estimateTokens(
+				renderLinkedFile(entry, this.format)
+			);
+			const isSelected = this.selected.has(entry);
+			if (isSelected) {
+				totalTokens += tokens;
+			}
+
+			this.renderRow(
+				getLinkedFileKey(entry),
+				entry.origin
+					? entry.origin.charAt(0).toUpperCase() +
+							entry.origin.slice(1)
+					: `Hop ${entry.depth} via ${entry.via
+							.slice(0, -1)
+							.join(" → ")}`,
+				entry.content.length,
+				tokens,
+				isSelected,
+				(checked) => {
+					if (checked) {
+						this.selected.add(entry);
+					} else {
+						this.selected.delete(entry);
+					}
+					this.renderList();
+				}
+			);
+		}
+
+		for (const backlink of this.backlinks) {
+			const tokens = this.plugin.estimateTokens(backlink.content);
+			const isSelected = this.selectedBacklinks.has(backlink);
+			if (isSelected) {
+				totalTokens += tokens;
+			}
+
+			this.renderRow(
+				backlink.file.path,
+				`Backlink, ${backlink.mentions} mention(s)` +
+					(backlink.paragraphsOnly
+						? " (mentioning paragraphs only)"
+						: ""),
+				backlink.content.length,
+				tokens,
+				isSelected,
+				(checked) => {
+					if (checked) {
+						this.selectedBacklinks.add(backlink);
+					} else {
+						this.selectedBacklinks.delete(backlink);
+					}
+					this.renderList();
+				}
+			);
+		}
+
+		this.totalEl.textContent =
+			`Total: ${
+				this.selected.size +
+				this.selectedBacklinks.size +
+				this.mainFiles.length
+			} file(s), ~${totalTokens} tokens` +
+			(this.tokenBudget > 0 ? ` (budget: ${this.tokenBudget})` : "");
+		this.totalEl.style.color =
+			this.tokenBudget > 0 && totalTokens > this.tokenBudget
+				? "var(--text-error)"
+				: "var(--text-normal)";
+
+		this.renderRedactions();
+	}
+
+	/**
+	 * Show what will be redacted from the selected files, without revealing
+	 * the redacted text itself
+	 */
+	private renderRedactions() {
+		this.redactionEl.empty();
+
+		const redactor = this.plugin.createRedactor();
+		if (!redactor) {
+			return;
+		}
+
+		for (const { file, content, properties } of [
+			...this.mainFiles,
+			...this.candidates.filter((entry) => this.selected.has(entry)),
+			...this.backlinks.filter((backlink) =>
+				this.selectedBacklinks.has(backlink)
+			),
+		]) {
+			if (!isDataUrl(content)) {
+				redactor.redact(content, file.path);
+			}
+			if (properties) {
+				redactor.redact(properties, file.path);
+			}
+		}
+		this.redactVariables(redactor);
+
+		const report = redactor.getReport();
+		this.redactionEl.createDiv({
+			text:
+				report.length > 0
+					? `Redactions (${report.length}):`
+					: "Redactions: nothing to redact in the selected files",
+		}).style.fontWeight = "bold";
+
+		for (const entry of report) {
+			const row = this.redactionEl.createDiv({
+				text: `${entry.placeholder} ${entry.detector}, ${
+					entry.occurrences
+				}× in ${entry.files.join(", ")}`,
+			});
+			row.style.color = "var(--text-muted)";
+			row.style.fontSize = "0.85em";
+		}
+	}
+
+	private renderRow(
+		path: string,
+		description: string,
+		characters: number,
+		tokens: number,
+		checked: boolean,
+		onToggle: ((checked: boolean) => void) | null
+	) {
+		const row = this.listEl.createDiv();
+		row.style.display = "flex";
+		row.style.alignItems = "center";
+		row.style.gap = "8px";
+		row.style.padding = "4px 8px";
+		row.style.borderBottom = "1px solid var(--background-modifier-border)";
+
+		const checkbox = row.createEl("input", { type: "checkbox" });
+		checkbox.checked = checked;
+		checkbox.disabled = !onToggle;
+		if (onToggle) {
+			checkbox.addEventListener("change", () =>
+				onToggle(checkbox.checked)
+			);
+		}
+
+		const label = row.createDiv();
+		label.style.flexGrow = "1";
+		label.createDiv({ text: path });
+		const descriptionEl = label.createDiv({ text: description });
+		descriptionEl.style.color = "var(--text-muted)";
+		descriptionEl.style.fontSize = "0.85em";
+
+		const size = row.createDiv({
+			text: `${(characters / 1024).toFixed(1)} KB · ~${tokens} tokens`,
+		});
+		size.style.color = "var(--text-muted)";
+		size.style.whiteSpace = "nowrap";
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	async open(): Promise<{
+		linkedFiles: LinkedFileEntry[];
+		backlinks: BacklinkEntry[];
+	} | null> {
+		super.open();
+		return new Promise((resolve) => {
+			this.onClose = () => {
+				this.contentEl.empty();
+				resolve(this.result);
+			};
+		});
+	}
+}
+
+/**
+ * Fuzzy search over a list of vault files
+ */
+class FileSuggestModal extends FuzzySuggestModal<TFile> {
+	private files: TFile[];
+	private onChoose: (file: TFile) => void;
+
+	constructor(
+		app: App,
+		files: TFile[],
+		onChoose: (file: TFile) => void,
+		placeholder = "Search for a file to add..."
+	) {
+		super(app);
+		this.files = files;
+		this.onChoose = onChoose;
+		this.setPlaceholder(placeholder);
+	}
+
+	getItems(): TFile[] {
+		return this.files;
+	}
+
+	getItemText(file: TFile): string {
+		return file.path;
+	}
+
+	onChooseItem(file: TFile) {
+		this.onChoose(file);
+	}
+}
+
+/**
+ * Fuzzy search over a list of items, like folders, tags or templates
+ */
+class ListSuggestModal<T> extends FuzzySuggestModal<T> {
+	private items: T[];
+	private getText: (item: T) => string;
+	private onChoose: (item: T) => void;
+
+	constructor(
+		app: App,
+		items: T[],
+		getText: (item: T) => string,
+		onChoose: (item: T) => void,
+		placeholder: string
+	) {
+		super(app);
+		this.items = items;
+		this.getText = getText;
+		this.onChoose = onChoose;
+		this.setPlaceholder(placeholder);
+	}
+
+	getItems(): T[] {
+		return this.items;
+	}
+
+	getItemText(item: T): string {
+		return this.getText(item);
+	}
+
+	onChooseItem(item: T) {
+		this.onChoose(item);
+	}
+}
+
+/**
+ * Modal showing a prompt in tabs by section. Given the prompt's parts, the
+ * instruction can be edited, linked files removed or reordered and another
+ * template chosen, and the prompt is rendered again as it changes.
+ */
+class PromptDisplayModal extends Modal {
+	private promptContent: string;
+	private format: PromptFormat;
+	// Set when the prompt can be edited
+	private plugin?: LLMContextPlugin;
+	private built?: BuiltPrompt;
+	// The prompt as generated, whose history entry is updated on copying
+	private original?: BuiltPrompt;
+	// The instruction as typed, set once it is edited
+	private instruction?: string;
+	private activeSection: SectionKey | "all" = "all";
+	private statsEl: HTMLElement;
+	private tabsContainer: HTMLElement;
+	private contentContainer: HTMLElement;
+	private allPre: HTMLElement;
+
+	constructor(
+		app: App,
+		promptContent: string,
+		format: PromptFormat,
+		plugin?: LLMContextPlugin,
+		built?: BuiltPrompt
+	) {
+		super(app);
+		this.promptContent = promptContent;
+		this.format = format;
+		this.plugin = plugin;
+		// Copied, as edits replace its context
+		this.built = built && { ...built };
+		this.original = built;
+	}
+
+	onOpen() {
+		// Make the modal wider
+		const modalEl = this.contentEl.parentElement as HTMLElement;
+		if (modalEl) {
+			modalEl.style.width = "80vw";
+			modalEl.style.maxWidth = "1000px"; // Set a max-width to avoid too wide modals on large screens
+		}
+
+		const { contentEl } = this;
+
+		contentEl.createEl("h2", { text: "Generated LLM Prompt" });
+
+		// Switch templates, building the prompt again for the same source
+		const { plugin, built } = this;
+		if (plugin && built) {
+			new Setting(contentEl)
+				.setName("Template")
+				.setDesc(
+					"Choosing another template builds the prompt again, keeping the files left out or added in the preview and removed below"
+				)
+				.addDropdown((dropdown) => {
+					// The template of the note, if the prompt is for one note
+					const file =
+						built.source.mainFiles.length === 1
+							? built.source.mainFiles[0]
+							: null;
+					for (const templateKey of plugin.getTemplateChoices(file)) {
+						dropdown.addOption(
+							templateKey,
+							templateKey === "custom"
+								? "Custom Instruction"
+								: plugin.getTemplateChoiceName(
+										templateKey,
+										file
+								  )
+						);
+					}
+					dropdown
+						.setValue(built.details.templateKey)
+						.onChange((value) => this.switchTemplate(value));
+				});
+		}
+
+		this.statsEl = contentEl.createDiv();
+		this.statsEl.style.color = "var(--text-muted)";
+		this.statsEl.style.marginBottom = "10px";
+
+		// Create tabs container
+		this.tabsContainer = contentEl.createDiv();
+		this.tabsContainer.style.display = "flex";
+		this.tabsContainer.style.flexWrap = "wrap";
+		this.tabsContainer.style.borderBottom =
+			"1px solid var(--background-modifier-border)";
+		this.tabsContainer.style.marginBottom = "15px";
+		this.tabsContainer.style.gap = "4px";
+
+		// Create content container
+		this.contentContainer = contentEl.createDiv();
+		this.contentContainer.style.maxHeight = "70vh";
+		this.contentContainer.style.overflow = "auto";
+
+		this.renderTabs();
+
+		const buttonContainer = contentEl.createEl("div");
+		buttonContainer.style.marginTop = "1rem";
+		buttonContainer.style.display = "flex";
+		buttonContainer.style.justifyContent = "space-between";
+
+		const copyButton = buttonContainer.createEl("button", {
+			text: "Copy to Clipboard",
+		});
+		copyButton.style.padding = "8px 16px";
+		copyButton.style.backgroundColor = "var(--interactive-accent)";
+		copyButton.style.color = "var(--text-on-accent)";
+		copyButton.style.border = "none";
+		copyButton.style.borderRadius = "4px";
+		copyButton.style.cursor = "pointer";
+
+		copyButton.addEventListener("click", async () => {
+			await navigator.clipboard.writeText(this.promptContent);
+			new Notice("Prompt copied to clipboard");
+
+			// The history keeps the prompt as copied
+			if (this.plugin && this.original && this.built) {
+				await this.plugin.updateHistoryEntry(
+					this.original,
+					this.built,
+					this.instruction
+				);
+			}
+		});
+
+		const closeButton = buttonContainer.createEl("button", {
+			text: "Close",
+		});
+		closeButton.style.padding = "8px 16px";
+		closeButton.style.backgroundColor = "var(--background-modifier-border)";
+		closeButton.style.color = "var(--text-normal)";
+		closeButton.style.border = "none";
+		closeButton.style.borderRadius = "4px";
+		closeButton.style.cursor = "pointer";
+
+		closeButton.addEventListener("click", () => {
+			this.close();
+		});
+	}
+
+	/**
+	 * Create the tabs and their content, keeping the active tab
+	 */
+	private renderTabs() {
+		this.tabsContainer.empty();
+		this.contentContainer.empty();
+
+		// Parse prompt sections
+		const promptSections = this.parsePromptSections(this.promptContent);
+
+		// Apply tab styles function
+		const applyTabStyle = (tab: HTMLElement, isActive: boolean) => {
+			tab.style.backgroundColor = isActive
+				? "var(--background-primary)"
+				: "var(--background-secondary)";
+			tab.style.color = isActive
+				? "var(--text-accent)"
+				: "var(--text-muted)";
+			tab.style.fontWeight = isActive ? "bold" : "normal";
+			tab.style.zIndex = isActive ? "2" : "1";
+			tab.style.borderBottom = isActive
+				? "1px solid var(--background-primary)"
+				: "none";
+		};
+
+		const tabs: { key: SectionKey | "all"; tab: HTMLElement }[] = [];
+		const contents: HTMLElement[] = [];
+		const addTab = (key: SectionKey | "all", displayName: string) => {
+			const tab = this.tabsContainer.createDiv();
+			tab.textContent = displayName;
+			tab.style.padding = "8px 12px";
+			tab.style.cursor = "pointer";
+			tab.style.borderRadius = "4px 4px 0 0";
+			tab.style.border = "1px solid var(--background-modifier-border)";
+			tab.style.borderBottom = "none";
+			tab.style.marginBottom = "-1px";
+
+			const contentDiv = this.contentContainer.createDiv();
+			tabs.push({ key, tab });
+			contents.push(contentDiv);
+
+			// Tab click event
+			tab.addEventListener("click", () => {
+				this.activeSection = key;
+				tabs.forEach((other, index) => {
+					applyTabStyle(other.tab, other.key === key);
+					contents[index].style.display =
+						other.key === key ? "block" : "none";
+				});
+			});
+			return contentDiv;
+		};
+
+		// First create the "All Content" tab, highlighting sections
+		this.allPre = this.createPre(addTab("all", "All Content"));
+
+		// Create tabs for each section in the prompt order. When editing,
+		// the instruction can be added even if there is none, and linked
+		// files are listed one by one.
+		const context = this.built?.context;
+		SECTION_KEYS.forEach((key) => {
+			const displayName = SECTION_GUIDES[key].title;
+
+			if (context && key === "instruction") {
+				this.renderInstructionEditor(addTab(key, displayName));
+				return;
+			}
+			if (context && key === "linkedFiles") {
+				this.renderLinkedFiles(addTab(key, displayName));
+				return;
+			}
+
+			const content = promptSections[key];
+			if (!content) return; // Skip if section doesn't exist
+
+			// Highlight the markers of the format
+			this.createPre(addTab(key, displayName)).innerHTML =
+				this.format.highlight(escapeHtml(content));
+		});
+
+		// Show the active tab, or All Content if its section is gone
+		const active =
+			tabs.find(({ key }) => key === this.activeSection) ?? tabs[0];
+		this.activeSection = active.key;
+		tabs.forEach(({ key, tab }, index) => {
+			applyTabStyle(tab, key === active.key);
+			contents[index].style.display =
+				key === active.key ? "block" : "none";
+		});
+
+		this.updatePrompt();
+	}
+
+	/**
+	 * Render the edited prompt again, and show it in the All Content tab
+	 * with its size
+	 */
+	private updatePrompt() {
+		if (this.built) {
+			if (this.instruction !== undefined) {
+				this.built.context = {
+					...this.built.context,
+					instruction: this.expandInstruction(this.instruction),
+				};
+			}
+			this.built.prompt = renderPrompt(this.built.context, this.format);
+			this.promptContent = this.built.prompt;
+		}
+
+		// Highlight sections in the All Content view
+		this.allPre.innerHTML = this.format.highlight(
+			escapeHtml(this.promptContent)
+		);
+
+		if (!this.plugin) {
+			return;
+		}
+		const tokens = this.plugin.estimateTokens(this.promptContent);
+		const budget = this.built
+			? this.plugin.getTokenBudget(this.built.details.templateKey)
+			: 0;
+		this.statsEl.setText(
+			`${this.promptContent.length.toLocaleString()} characters, ~${tokens.toLocaleString()} tokens` +
+				(budget > 0 ? ` (budget: ${budget.toLocaleString()})` : "")
+		);
+		this.statsEl.style.color =
+			budget > 0 && tokens > budget
+				? "var(--text-error)"
+				: "var(--text-muted)";
+	}
+
+	private renderInstructionEditor(containerEl: HTMLElement) {
+		const built = this.built as BuiltPrompt;
+
+		const textarea = containerEl.createEl("textarea", {
+			cls: "llm-context-instruction-textarea",
+		});
+		textarea.value = this.instruction ?? built.context.instruction;
+		textarea.placeholder = "Enter instructions for the LLM...";
+		textarea.style.width = "100%";
+		textarea.style.minHeight = "200px";
+
+		// Only the prompt is rendered again while typing, to keep the focus
+		textarea.addEventListener("input", () => {
+			this.instruction = textarea.value;
+			this.updatePrompt();
+		});
+	}
+
+	/**
+	 * Expand the variables in an instruction typed here, for the files now in
+	 * the prompt
+	 */
+	private expandInstruction(instruction: string): string {
+		const { plugin, built } = this;
+		if (!plugin || !built) {
+			return instruction;
+		}
+		return expandVariables(
+			instruction,
+			plugin.createVariableResolver(
+				built.source,
+				built.details.templateKey,
+				built.context.linkedFiles.length,
+				this.format,
+				built.redactor
+			)
+		);
+	}
+
+	private renderLinkedFiles(containerEl: HTMLElement) {
+		const built = this.built as BuiltPrompt;
+		const linkedFiles = built.context.linkedFiles;
+
+		if (linkedFiles.length === 0) {
+			containerEl.createEl("p", { text: "No linked files found." });
+			return;
+		}
+
+		const update = (next: LinkedFileEntry[]) => {
+			built.context = { ...built.context, linkedFiles: next };
+			this.renderTabs();
+		};
+
+		linkedFiles.forEach((entry, index) => {
+			const rendered = renderLinkedFile(entry, this.format);
+			const tokens = this.plugin
+				? ` · ~${this.plugin
+						.estimateTokens(rendered)
+						.toLocaleString()} tokens`
+				: "";
+
+			new Setting(containerEl)
+				.setName(`${index + 1}. ${getLinkedFileKey(entry)}`)
+				.setDesc(`${entry.content.length} characters${tokens}`)
+				.addExtraButton((btn) =>
+					btn
+						.setIcon("arrow-up")
+						.setTooltip("Move up")
+						.setDisabled(index === 0)
+						.onClick(() => {
+							const next = [...linkedFiles];
+							next[index] = linkedFiles[index - 1];
+							next[index - 1] = entry;
+							update(next);
+						})
+				)
+				.addExtraButton((btn) =>
+					btn
+						.setIcon("arrow-down")
+						.setTooltip("Move down")
+						.setDisabled(index === linkedFiles.length - 1)
+						.onClick(() => {
+							const next = [...linkedFiles];
+							next[index] = linkedFiles[index + 1];
+							next[index + 1] = entry;
+							update(next);
+						})
+				)
+				.addExtraButton((btn) =>
+					btn
+						.setIcon("x")
+						.setTooltip("Remove from the prompt")
+						.onClick(() => {
+							// Kept when switching templates
+							const { edits } = built;
+							built.edits =
+								edits.addedFiles.includes(entry.file) &&
+								!entry.excerpt
+									? {
+											...edits,
+											addedFiles: edits.addedFiles.filter(
+												(file) => file !== entry.file
+											),
+									  }
+									: {
+											...edits,
+											removedFiles: [
+												...edits.removedFiles,
+												getLinkedFileKey(entry),
+											],
+									  };
+							update(
+								linkedFiles.filter((other) => other !== entry)
+							);
+						})
+				);
+
+			this.createPre(containerEl).innerHTML = this.format.highlight(
+				escapeHtml(rendered)
+			);
+		});
+	}
+
+	/**
+	 * Build the prompt again with another template, leaving out the files
+	 * removed so far and keeping the order of the files
+	 */
+	private async switchTemplate(templateKey: string) {
+		const { plugin, built } = this;
+		if (!plugin || !built) {
+			return;
+		}
+
+		try {
+			// The files left out or added in the preview or here are kept
+			const rebuilt = await plugin.buildPrompt(
+				templateKey,
+				templateKey === "custom"
+					? this.instruction ?? built.context.instruction
+					: undefined,
+				built.source,
+				false,
+				undefined,
+				built.edits
+			);
+			if (!rebuilt) {
+				return;
+			}
+
+			// Files that weren't in the prompt before go last
+			const order = built.context.linkedFiles.map(getLinkedFileKey);
+			const position = (entry: LinkedFileEntry) => {
+				const index = order.indexOf(getLinkedFileKey(entry));
+				return index === -1 ? order.length : index;
+			};
+			rebuilt.context = {
+				...rebuilt.context,
+				linkedFiles: [...rebuilt.context.linkedFiles].sort(
+					(a, b) => position(a) - position(b)
+				),
+			};
+
+			// A template's own instruction replaces the one typed here
+			if (templateKey !== "custom") {
+				this.instruction = undefined;
+			}
+			this.built = rebuilt;
+			this.format = rebuilt.format;
+			this.renderTabs();
+		} catch (error) {
+			console.error("Error switching template:", error);
+			new Notice(`Error: ${error.message}`);
+		}
+	}
+
+	private createPre(containerEl: HTMLElement): HTMLElement {
+		const pre = containerEl.createEl("pre");
+		pre.style.whiteSpace = "pre-wrap";
+		pre.style.padding = "1rem";
+		pre.style.margin = "0";
+		pre.style.border = "1px solid var(--background-modifier-border)";
+		pre.style.borderRadius = "4px";
+		pre.style.backgroundColor = "var(--code-background)";
+		pre.style.fontSize = "0.95em"; // Slightly smaller font for code
+		pre.style.lineHeight = "1.5"; // Better line height for readability
+		return pre;
+	}
+
+	/**
+	 * Parse the prompt content into sections
+	 */
+	private parsePromptSections(
+		content: string
+	): Partial<Record<SectionKey, string>> {
+		return this.format.parseSections(content);
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+/**
+ * Modal listing the prompt history, newest first, to view, copy, compare
+ * with the vault or re-run past prompts
+ */
+class PromptHistoryModal extends Modal {
+	private plugin: LLMContextPlugin;
+	private listEl: HTMLElement;
+
+	constructor(app: App, plugin: LLMContextPlugin) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl("h2", { text: "LLM Context History" });
+
+		this.listEl = contentEl.createDiv();
+		this.listEl.style.maxHeight = "60vh";
+		this.listEl.style.overflowY = "auto";
+		this.renderList();
+
+		new Setting(contentEl).addButton((btn) =>
+			btn
+				.setButtonText("Clear History")
+				.setWarning()
+				.onClick(async () => {
+					const confirmed = await new ConfirmationModal(
+						this.app,
+						"Are you sure you want to delete all prompts in the history?"
+					).open();
+					if (confirmed) {
+						this.plugin.promptHistory = [];
+						await this.plugin.saveHistory();
+						this.renderList();
+					}
+				})
+		);
+	}
+
+	private renderList() {
+		this.listEl.empty();
+		const history = this.plugin.promptHistory;
+		if (history.length === 0) {
+			this.listEl.createEl("p", {
+				text:
+					this.plugin.settings.historySize > 0
+						? "No prompts generated yet."
+						: "The history is turned off in the settings.",
+			});
+			return;
+		}
+
+		for (const entry of history) {
+			const templateName =
+				entry.templateKey === "custom"
+					? "custom instruction"
+					: entry.templateKey;
+			const setting = new Setting(this.listEl)
+				.setName(
+					`${moment(entry.timestamp).format(
+						"YYYY-MM-DD HH:mm"
+					)} · ${templateName}`
+				)
+				.setDesc(
+					`${entry.source.description} · ${
+						entry.files.length
+					} file(s) · ${entry.prompt.length.toLocaleString()} characters, ~${entry.tokens.toLocaleString()} tokens`
+				)
+				.addButton((btn) =>
+					btn.setButtonText("View").onClick(() => {
+						new PromptDisplayModal(
+							this.app,
+							entry.prompt,
+							this.plugin.getHistoryFormat(entry)
+						).open();
+					})
+				)
+				.addButton((btn) =>
+					btn.setButtonText("Copy").onClick(async () => {
+						await navigator.clipboard.writeText(entry.prompt);
+						new Notice("Prompt copied to clipboard");
+					})
+				)
+				.addButton((btn) =>
+					btn.setButtonText("Diff").onClick(async () => {
+						try {
+							const built = await this.plugin.rebuildHistoryEntry(
+								entry
+							);
+							if (built) {
+								new PromptDiffModal(
+									this.app,
+									entry,
+									built
+								).open();
+							}
+						} catch (error) {
+							console.error("Error comparing prompt:", error);
+							new Notice(`Error: ${error.message}`);
+						}
+					})
+				)
+				.addButton((btn) =>
+					btn
+						.setButtonText("Re-run")
+						.setCta()
+						.onClick(() => {
+							this.close();
+							this.plugin.rerunHistoryEntry(entry);
+						})
+				)
+				.addExtraButton((btn) =>
+					btn
+						.setIcon("trash")
+						.setTooltip("Delete")
+						.onClick(async () => {
+							this.plugin.promptHistory =
+								this.plugin.promptHistory.filter(
+									(other) => other !== entry
+								);
+							await this.plugin.saveHistory();
+							this.renderList();
+						})
+				);
+
+			// The included files, in a collapsible list
+			const details = setting.descEl.createEl("details");
+			details.createEl("summary", { text: "Files" });
+			const list = details.createEl("ul");
+			for (const file of entry.files) {
+				list.createEl("li", { text: file.path });
+			}
+		}
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+/**
+ * Modal comparing a prompt from the history with the same prompt built from
+ * the latest vault state
+ */
+class PromptDiffModal extends Modal {
+	private entry: PromptHistoryEntry;
+	private built: BuiltPrompt;
+
+	constructor(app: App, entry: PromptHistoryEntry, built: BuiltPrompt) {
+		super(app);
+		this.entry = entry;
+		this.built = built;
+	}
+
+	onOpen() {
+		const modalEl = this.contentEl.parentElement as HTMLElement;
+		if (modalEl) {
+			modalEl.style.width = "80vw";
+			modalEl.style.maxWidth = "1000px";
+		}
+
+		const { contentEl } = this;
+		contentEl.createEl("h2", { text: "Changes Since Generated" });
+
+		// Changes to the included files
+		const currentFiles = getContextFiles(this.built.context);
+		const changes: string[] = [];
+		for (const { path, mtime } of this.entry.files) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (!(file instanceof TFile)) {
+				changes.push(`Deleted: ${path}`);
+			} else if (!currentFiles.includes(file)) {
+				changes.push(`No longer included: ${path}`);
+			} else if (file.stat.mtime > mtime) {
+				changes.push(`Modified: ${path}`);
+			}
+		}
+		for (const file of currentFiles) {
+			if (!this.entry.files.some(({ path }) => path === file.path)) {
+				changes.push(`Newly included: ${file.path}`);
+			}
+		}
+
+		contentEl.createEl("h3", { text: "Files" });
+		if (changes.length === 0) {
+			contentEl.createEl("p", { text: "No files changed." });
+		} else {
+			const list = contentEl.createEl("ul");
+			for (const change of changes) {
+				list.createEl("li", { text: change });
+			}
+		}
+
+		// Changes to the prompt text, with unchanged lines collapsed
+		contentEl.createEl("h3", { text: "Prompt" });
+		const lines = diffLines(this.entry.prompt, this.built.prompt);
+		if (lines.every((line) => line.type === "same")) {
+			contentEl.createEl("p", { text: "The prompt is unchanged." });
+			return;
+		}
+
+		const pre = contentEl.createEl("pre");
+		pre.style.whiteSpace = "pre-wrap";
+		pre.style.maxHeight = "50vh";
+		pre.style.overflow = "auto";
+		pre.style.padding = "1rem";
+		pre.style.border = "1px solid var(--background-modifier-border)";
+		pre.style.borderRadius = "4px";
+		pre.style.backgroundColor = "var(--code-background)";
+
+		// Show three unchanged lines around each change
+		const visible = lines.map(() => false);
+		lines.forEach((line, index) => {
+			if (line.type !== "same") {
+				const end = Math.min(lines.length - 1, index + 3);
+				for (let i = Math.max(0, index - 3); i <= end; i++) {
+					visible[i] = true;
+				}
+			}
+		});
+
+		lines.forEach((line, index) => {
+			if (!visible[index]) {
+				// One marker for each run of hidden lines
+				if (index === 0 || visible[index - 1]) {
+					const marker = pre.createDiv({ text: "⋯" });
+					marker.style.color = "var(--text-faint)";
+				}
+				return;
+			}
+
+			const lineEl = pre.createDiv({
+				text: `${
+					line.type === "added"
+						? "+"
+						: line.type === "removed"
+						? "-"
+						: " "
+				} ${line.text}`,
+			});
+			if (line.type === "added") {
+				lineEl.style.backgroundColor =
+					"rgba(var(--color-green-rgb), 0.2)";
+			} else if (line.type === "removed") {
+				lineEl.style.backgroundColor =
+					"rgba(var(--color-red-rgb), 0.2)";
+			}
+		});
+
+		new Setting(contentEl).addButton((btn) =>
+			btn
+				.setButtonText("Copy Latest Prompt")
+				.setCta()
+				.onClick(async () => {
+					await navigator.clipboard.writeText(this.built.prompt);
+					new Notice("Prompt copied to clipboard");
+				})
+		);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+const CHAT_VIEW_TYPE = "llm-context-chat";
+
+/**
+ * Side pane for a conversation about a generated context. The context is the
+ * first message and is rendered again for every request, so files added or
+ * removed during the conversation are taken into account.
+ */
+class ChatView extends ItemView {
+	private plugin: LLMContextPlugin;
+	private built: BuiltPrompt | null = null;
+	// The conversation after the context message
+	private entries: ChatEntry[] = [];
+	// Set while a response is streaming
+	private abortController: AbortController | null = null;
+	// Counts the conversations started, to tell when one replaced another
+	private conversation = 0;
+	private filesEl: HTMLElement;
+	private messagesEl: HTMLElement;
+	private inputEl: HTMLTextAreaElement;
+	private sendButton: ButtonComponent;
+
+	constructor(leaf: WorkspaceLeaf, plugin: LLMContextPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return CHAT_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return "LLM Context Chat";
+	}
+
+	getIcon(): string {
+		return "messages-square";
+	}
+
+	async onOpen() {
+		const container = this.contentEl;
+		container.empty();
+		container.style.display = "flex";
+		container.style.flexDirection = "column";
+		container.style.gap = "8px";
+
+		this.filesEl = container.createDiv();
+
+		this.messagesEl = container.createDiv();
+		this.messagesEl.style.flex = "1";
+		this.messagesEl.style.overflowY = "auto";
+
+		this.inputEl = container.createEl("textarea", {
+			attr: { placeholder: "Ask a follow-up question..." },
+		});
+		this.inputEl.rows = 3;
+		this.inputEl.style.width = "100%";
+		this.inputEl.style.resize = "vertical";
+		// Send with Ctrl/Cmd+Enter
+		this.inputEl.addEventListener("keydown", (event) => {
+			if (event.key === "Enter" && (event.ctrlKey || event.metaKey)) {
+				event.preventDefault();
+				this.sendQuestion();
+			}
+		});
+
+		new Setting(container)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Save Transcript")
+					.onClick(() => this.saveTranscript())
+			)
+			.addButton((btn) => {
+				this.sendButton = btn;
+				btn.setCta().onClick(() => {
+					if (this.abortController) {
+						this.abortController.abort();
+					} else {
+						this.sendQuestion();
+					}
+				});
+			});
+
+		this.render();
+	}
+
+	async onClose() {
+		this.abortController?.abort();
+	}
+
+	/**
+	 * Start a new conversation about a built prompt, with the prompt itself as
+	 * the first question
+	 */
+	async startChat(built: BuiltPrompt) {
+		// A response still streaming is stopped and left behind, so the new
+		// chat can be sent right away
+		this.abortController?.abort();
+		this.abortController = null;
+		this.conversation++;
+		this.built = built;
+		this.entries = [];
+		this.render();
+		await this.send();
+	}
+
+	private render() {
+		this.renderFiles();
+		this.renderMessages();
+		this.updateControls();
+	}
+
+	private renderFiles() {
+		this.filesEl.empty();
+		if (!this.built) {
+			this.filesEl.createEl("p", {
+				text: 'Run "Chat about LLM Context" to start a conversation about the current note and its links.',
+				cls: "setting-item-description",
+			});
+			return;
+		}
+
+		const { context } = this.built;
+		const details = this.filesEl.createEl("details");
+		details.createEl("summary", {
+			text: `Files in context (${getContextFiles(context).length})`,
+		});
+
+		const list = details.createEl("ul");
+		list.style.margin = "4px 0";
+		const addRow = (file: TFile, label: string, onRemove?: () => void) => {
+			const item = list.createEl("li");
+			const link = item.createEl("a", { text: file.path });
+			link.addEventListener("click", () =>
+				this.app.workspace.getLeaf(false).openFile(file)
+			);
+			item.createSpan({
+				text: ` (${label})`,
+				cls: "setting-item-description",
+			});
+
+			if (onRemove) {
+				const removeButton = item.createEl("button", { text: "×" });
+				removeButton.style.marginLeft = "6px";
+				removeButton.setAttr("aria-label", "Remove from context");
+				removeButton.addEventListener("click", onRemove);
+			}
+		};
+
+		// The main files are the subject of the conversation and can't be
+		// removed
+		for (const entry of context.mainFiles) {
+			addRow(entry.file, "main");
+		}
+		for (const entry of context.linkedFiles) {
+			addRow(entry.file, "linked", () => {
+				context.linkedFiles = context.linkedFiles.filter(
+					(other) => other !== entry
+				);
+				this.addEvent(`Removed ${entry.file.path} from the context`);
+			});
+		}
+		for (const entry of context.backlinks) {
+			addRow(entry.file, "backlink", () => {
+				context.backlinks = context.backlinks.filter(
+					(other) => other !== entry
+				);
+				this.addEvent(`Removed ${entry.file.path} from the context`);
+			});
+		}
+
+		new Setting(details).addButton((btn) =>
+			btn.setButtonText("Add File").onClick(() => {
+				const included = getContextFiles(context);
+				new FileSuggestModal(
+					this.app,
+					this.app.vault
+						.getMarkdownFiles()
+						.filter(
+							(file) =>
+								!this.plugin.isExcluded(file) &&
+								!included.includes(file)
+						),
+					(file) => this.addFile(file)
+				).open();
+			})
+		);
+	}
+
+	private renderMessages() {
+		this.messagesEl.empty();
+		if (!this.built) {
+			return;
+		}
+
+		// The context message is shown as its instruction
+		this.renderEntry({
+			role: "user",
+			content: this.built.context.instruction || "(context only)",
+		});
+		for (const entry of this.entries) {
+			this.renderEntry(entry);
+		}
+		this.messagesEl.scrollTop = this.messagesEl.scrollHeight;
+	}
+
+	private renderEntry(entry: ChatEntry): HTMLElement {
+		const entryEl = this.messagesEl.createDiv();
+		entryEl.style.marginBottom = "12px";
+
+		if (entry.role === "event") {
+			entryEl.createEl("em", {
+				text: entry.content,
+				cls: "setting-item-description",
+			});
+			return entryEl;
+		}
+
+		const label = entryEl.createDiv({
+			text: entry.role === "user" ? "You" : this.plugin.settings.llmModel,
+		});
+		label.style.fontWeight = "bold";
+		label.style.color =
+			entry.role === "user" ? "var(--text-muted)" : "var(--text-accent)";
+
+		const contentEl = entryEl.createDiv();
+		if (entry.content === "") {
+			return contentEl;
+		}
+		MarkdownRenderer.render(
+			this.app,
+			entry.content,
+			contentEl,
+			this.built?.details.sourceFile.path ?? "",
+			this
+		);
+		return contentEl;
+	}
+
+	private updateControls() {
+		const streaming = this.abortController !== null;
+		this.sendButton.setButtonText(streaming ? "Stop" : "Send");
+		this.sendButton.setDisabled(!this.built);
+		this.inputEl.disabled = !this.built;
+	}
+
+	private addEvent(text: string) {
+		this.entries.push({ role: "event", content: text });
+		this.render();
+	}
+
+	private async addFile(file: TFile) {
+		if (!this.built) {
+			return;
+		}
+
+		let content = await this.plugin.readNote(file);
+		if (this.built.redactor) {
+			content = this.built.redactor.redact(content, file.path);
+		}
+
+		this.built.context.linkedFiles.push({
+			file,
+			content,
+			depth: 0,
+			via: [],
+			origin: "added manually",
+			properties: this.plugin.getProperties(file),
+		});
+		this.addEvent(`Added ${file.path} to the context`);
+	}
+
+	private async sendQuestion() {
+		const question = this.inputEl.value.trim();
+		if (!question || this.abortController) {
+			return;
+		}
+
+		this.inputEl.value = "";
+		const questionEntry: ChatEntry = { role: "user", content: question };
+		this.entries.push(questionEntry);
+		const conversation = this.conversation;
+		const answered = await this.send();
+
+		// Put an unanswered question back, so it can be sent again, unless a
+		// new conversation has replaced this one
+		if (!answered && this.conversation === conversation) {
+			this.entries = this.entries.filter(
+				(entry) => entry !== questionEntry
+			);
+			this.inputEl.value = question;
+			this.render();
+		}
+	}
+
+	/**
+	 * Send the conversation and stream the response into a new message.
+	 * Returns whether a response was received.
+	 */
+	private async send(): Promise<boolean> {
+		if (!this.built || this.abortController) {
+			return false;
+		}
+
+		const messages: ChatMessage[] = [
+			{
+				role: "user",
+				content: renderPrompt(this.built.context, this.built.format),
+			},
+		];
+		for (const entry of this.entries) {
+			if (entry.role !== "event") {
+				messages.push({ role: entry.role, content: entry.content });
+			}
+		}
+
+		const response: ChatEntry = { role: "assistant", content: "" };
+		this.entries.push(response);
+		const abortController = new AbortController();
+		this.abortController = abortController;
+		this.render();
+
+		// Show the response as plain text while it streams
+		const contentEl = this.messagesEl.lastElementChild
+			?.lastElementChild as HTMLElement;
+		contentEl.style.whiteSpace = "pre-wrap";
+
+		try {
+			await streamChatResponse(
+				this.plugin.settings,
+				messages,
+				(text) => {
+					response.content += text;
+					contentEl.setText(response.content);
+					this.messagesEl.scrollTop = this.messagesEl.scrollHeight;
+				},
+				abortController.signal
+			);
+		} catch (error) {
+			if (error.name !== "AbortError") {
+				console.error("Error in LLM chat:", error);
+				new Notice(`Error: ${error.message}`);
+			}
+		} finally {
+			// Unless a new chat has started streaming since
+			if (this.abortController === abortController) {
+				this.abortController = null;
+			}
+		}
+
+		// A new chat has replaced the conversation
+		if (!this.entries.includes(response)) {
+			return false;
+		}
+
+		if (!response.content) {
+			this.entries = this.entries.filter((entry) => entry !== response);
+		}
+		this.render();
+		return response.content !== "";
+	}
+
+	/**
+	 * Save the conversation as a note linking to the files in context
+	 */
+	private async saveTranscript() {
+		if (!this.built) {
+			return;
+		}
+
+		const { context, details } = this.built;
+		const path = await this.plugin.getResponsePath(
+			`${details.sourceFile.basename} (LLM chat)`
+		);
+		const files = getContextFiles(context);
+		const link = (file: TFile) =>
+			this.app.fileManager.generateMarkdownLink(file, path);
+
+		const parts = [
+			"## Context",
+			files.map((file) => `- ${link(file)}`).join("\n"),
+			"## You",
+			context.instruction || "(context only)",
+		];
+		for (const entry of this.entries) {
+			if (entry.role === "event") {
+				parts.push(`*${entry.content}*`);
+			} else {
+				parts.push(
+					entry.role === "user"
+						? "## You"
+						: `## ${this.plugin.settings.llmModel}`,
+					entry.content
+				);
+			}
+		}
+
+		const file = await this.app.vault.create(
+			path,
+			this.plugin.createResponseFrontmatter({ ...details, files }, path) +
+				parts.join("\n\n") +
+				"\n"
+		);
+		await this.app.workspace.getLeaf("tab").openFile(file);
+		new Notice(`Chat saved to ${file.path}`);
+	}
+}
+
+class LLMContextSettingTab extends PluginSettingTab {
+	plugin: LLMContextPlugin;
+
+	constructor(app: App, plugin: LLMContextPlugin) {
+		super(app, plugin);
+		this.plugin = plugin;
+	}
+
+	hide(): void {
+		// Save any change still waiting on the debounce when the tab closes
+		this.plugin.requestSaveSettings.run();
+	}
+
+	display(): void {
+		const { containerEl } = this;
+		containerEl.empty();
+
+		containerEl.createEl("h2", { text: "LLM Context Settings" });
+
+		// Introduction
+		const introDiv = containerEl.createEl("div");
+		introDiv.style.marginBottom = "20px";
+		introDiv.createEl("p", {
+			text: "This plugin generates structured prompts for AI tools based on the current file and its linked references in your vault.",
+		});
+
+		// Output Actions
+		new Setting(containerEl)
+			.setName("Output")
+			.setDesc(
+				"What to do with a generated prompt. The actions run in order, and each reports whether it succeeded. Templates can override them."
+			);
+		addOutputActionsSettings(
+			containerEl,
+			this.plugin.settings.outputActions,
+			async (actions) => {
+				this.plugin.settings.outputActions = actions;
+				await this.plugin.saveSettings();
+				this.display(); // Refresh the display to show/hide the action settings
+			}
+		);
+
+		// Settings of the actions used globally or by any template
+		const usedActions = new Set([
+			...this.plugin.settings.outputActions,
+			...Object.keys(this.plugin.settings.instructionTemplates).flatMap(
+				(templateName) =>
+					this.plugin.settings.instructionTemplates[templateName]
+						.outputActions ?? []
+			),
+		]);
+
+		// File Settings (only show if an action is "file")
+		if (usedActions.has("file")) {
+			const fileNameSetting = new Setting(containerEl)
+				.setName("Output File Name")
+				.setDesc(
+					"Name of the file to save the prompt to. Can include variables, e.g. {{basename}}-{{template}}-{{date:YYYYMMDD-HHmm}}.md, and slashes for subfolders."
+				);
+
+			const fileNameInputEl = document.createElement("textarea");
+			fileNameInputEl.value = this.plugin.settings.outputFileName;
+			fileNameInputEl.rows = 1;
+			fileNameInputEl.style.width = "100%";
+			fileNameInputEl.addEventListener("blur", async () => {
+				this.plugin.settings.outputFileName = fileNameInputEl.value;
+				await this.plugin.saveSettings();
+			});
+
+			fileNameSetting.controlEl.appendChild(fileNameInputEl);
+
+			new Setting(containerEl)
+				.setName("Output Folder")
+				.setDesc(
+					"Folder to save prompts in, created if it doesn't exist. Empty for the vault root."
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("LLM Prompts")
+						.setValue(this.plugin.settings.outputFolder)
+						.onChange(async (value) => {
+							this.plugin.settings.outputFolder = value.trim();
+							this.plugin.requestSaveSettings();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName("If the File Exists")
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOption("increment", "Add a number to the name")
+						.addOption("append", "Append to the file")
+						.addOption("overwrite", "Overwrite the file")
+						.setValue(this.plugin.settings.outputConflict)
+						.onChange(async (value: OutputConflict) => {
+							this.plugin.settings.outputConflict = value;
+							await this.plugin.saveSettings();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName("Add Frontmatter")
+				.setDesc(
+					"Record the source, template and included files in the frontmatter of the saved file."
+				)
+				.addToggle((toggle) =>
+					toggle
+						.setValue(this.plugin.settings.outputFrontmatter)
+						.onChange(async (value) => {
+							this.plugin.settings.outputFrontmatter = value;
+							await this.plugin.saveSettings();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName("Open After Saving")
+				.addToggle((toggle) =>
+					toggle
+						.setValue(this.plugin.settings.openOutputFile)
+						.onChange(async (value) => {
+							this.plugin.settings.openOutputFile = value;
+							await this.plugin.saveSettings();
+						})
+				);
+		}
+
+		// Log Note Setting (only show if an action is "log")
+		if (usedActions.has("log")) {
+			new Setting(containerEl)
+				.setName("Log Note")
+				.setDesc(
+					"Note that prompts are appended to, each under a heading with the time, template and source. Created if it doesn't exist."
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder(DEFAULT_SETTINGS.logNotePath)
+						.setValue(this.plugin.settings.logNotePath)
+						.onChange(async (value) => {
+							this.plugin.settings.logNotePath = value.trim();
+							this.plugin.requestSaveSettings();
+						})
+				);
+		}
+
+		// Response Settings (only show if an action is "send")
+		if (usedActions.has("send")) {
+			new Setting(containerEl)
+				.setName("Response")
+				.setDesc(
+					"Where to write the response. A new note records the model, template and included files in its frontmatter."
+				)
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOption("note", "New note")
+						.addOption("cursor", "Below the cursor")
+						.setValue(this.plugin.settings.responseTarget)
+						.onChange(async (value: ResponseTarget) => {
+							this.plugin.settings.responseTarget = value;
+							await this.plugin.saveSettings();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName("Response Folder")
+				.setDesc(
+					"Folder for response notes, created if it doesn't exist. Empty for the vault root."
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("LLM Responses")
+						.setValue(this.plugin.settings.responseFolder)
+						.onChange(async (value) => {
+							this.plugin.settings.responseFolder = value.trim();
+							this.plugin.requestSaveSettings();
+						})
+				);
+		}
+
+		// Prompt Format Setting
+		new Setting(containerEl)
+			.setName("Prompt Format")
+			.setDesc(
+				"How sections and files are marked in the prompt. Templates can override this."
+			)
+			.addDropdown((dropdown) => {
+				for (const format of Object.keys(PROMPT_FORMATS).map(
+					(id: PromptFormatId) => PROMPT_FORMATS[id]
+				)) {
+					dropdown.addOption(format.id, format.name);
+				}
+				dropdown
+					.setValue(this.plugin.settings.promptFormat)
+					.onChange(async (value: PromptFormatId) => {
+						this.plugin.settings.promptFormat = value;
+						await this.plugin.saveSettings();
+						this.display(); // Refresh the display to update the system instruction
+					});
+			});
+
+		// Link Depth Setting
+		new Setting(containerEl)
+			.setName("Link Depth")
+			.setDesc(
+				"How many hops of links to follow from the current file. 1 includes only files linked directly, 2 also includes the files those link to, and so on."
+			)
+			.addSlider((slider) =>
+				slider
+					.setLimits(1, 10, 1)
+					.setValue(this.plugin.settings.linkDepth)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.linkDepth = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// Expand Embeds Setting
+		new Setting(containerEl)
+			.setName("Expand Embeds Inline")
+			.setDesc(
+				"Expand embedded notes (![[note]] and ![[note#section]]) inside the main content where they appear, like in reading view, instead of listing them as linked files."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.expandEmbeds)
+					.onChange(async (value) => {
+						this.plugin.settings.expandEmbeds = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// Backlinks Setting
+		new Setting(containerEl)
+			.setName("Backlinks")
+			.setDesc(
+				"Include notes that link to the current file in a separate Backlinks section"
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("off", "Don't include")
+					.addOption("note", "Whole linking notes")
+					.addOption("paragraph", "Mentioning paragraphs only")
+					.setValue(this.plugin.settings.backlinksMode)
+					.onChange(async (value: BacklinksMode) => {
+						this.plugin.settings.backlinksMode = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// Heading Path Setting
+		new Setting(containerEl)
+			.setName("Include Heading Path for Selections")
+			.setDesc(
+				"When generating from a selection, name the headings the selection is located under, so the AI knows where the excerpt came from."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.includeHeadingPath)
+					.onChange(async (value) => {
+						this.plugin.settings.includeHeadingPath = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// Attachments Setting
+		new Setting(containerEl)
+			.setName("Include Attachments")
+			.setDesc(
+				"Include linked files that aren't Markdown notes: canvases as an outline, CSV files as a table, code files in a code block, PDFs as their text and images by their alt text (or base64 data in JSON prompts)."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.includeAttachments)
+					.onChange(async (value) => {
+						this.plugin.settings.includeAttachments = value;
+						await this.plugin.saveSettings();
+						this.display(); // Refresh the display to show/hide the row limit
+					})
+			);
+
+		if (this.plugin.settings.includeAttachments) {
+			new Setting(containerEl)
+				.setName("CSV Row Limit")
+				.setDesc(
+					"Maximum number of rows of a CSV file included in the table. 0 means no limit."
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("50")
+						.setValue(String(this.plugin.settings.csvRowLimit))
+						.onChange(async (value) => {
+							this.plugin.settings.csvRowLimit =
+								parseNonNegativeInt(value) ?? 0;
+							this.plugin.requestSaveSettings();
+						})
+				);
+		}
+
+		// Frontmatter Setting
+		new Setting(containerEl)
+			.setName("Frontmatter")
+			.setDesc(
+				"What to do with the frontmatter (properties) of included notes"
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("keep", "Keep in the content")
+					.addOption("strip", "Remove")
+					.addOption("metadata", "Move to the file header")
+					.setValue(this.plugin.settings.frontmatterMode)
+					.onChange(async (value: FrontmatterMode) => {
+						this.plugin.settings.frontmatterMode = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// Preview Setting
+		new Setting(containerEl)
+			.setName("Preview Before Generating")
+			.setDesc(
+				"Show the main file and all linked files with their size before generating, so you can leave files out or add other files from the vault."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.previewBeforeGenerate)
+					.onChange(async (value) => {
+						this.plugin.settings.previewBeforeGenerate = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// History Setting
+		new Setting(containerEl)
+			.setName("History Size")
+			.setDesc(
+				'Number of generated prompts kept in the history, to view, copy, compare or re-run them with "Show LLM Context History". Prompts are stored in history.json in the plugin folder, redacted like the output, with the instructions you typed as typed. 0 turns the history off.'
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("20")
+					.setValue(String(this.plugin.settings.historySize))
+					.onChange(async (value) => {
+						this.plugin.settings.historySize =
+							parseNonNegativeInt(value) ?? 0;
+						this.plugin.requestSaveSettings();
+					})
+			);
+
+		// Entry Point Settings
+		new Setting(containerEl)
+			.setName("Context Menus")
+			.setDesc(
+				"Generate from the menu of a note, folder, several selected files or a tab header, and from the editor menu, which uses the selection if there is one"
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.showContextMenus)
+					.onChange(async (value) => {
+						this.plugin.settings.showContextMenus = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Ribbon Icon")
+			.setDesc(
+				"Show an icon in the ribbon that generates a prompt for the active file"
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.showRibbonIcon)
+					.onChange(async (value) => {
+						this.plugin.settings.showRibbonIcon = value;
+						await this.plugin.saveSettings();
+						this.plugin.updateRibbonIcon();
+					})
+			);
+
+		// Folder, Tag and Search Section
+		containerEl.createEl("h3", { text: "Folder, Tag and Search" });
+		containerEl.createEl("p", {
+			text: "Settings for the commands that generate a prompt from all notes in a folder, with a tag, or matching a search.",
+		});
+
+		new Setting(containerEl)
+			.setName("Include Subfolders")
+			.setDesc(
+				"Include notes in subfolders when generating from a folder"
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.sourceRecursive)
+					.onChange(async (value) => {
+						this.plugin.settings.sourceRecursive = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Main Content")
+			.setDesc(
+				"Put all notes in the main content as peers, or choose one main note and include the others as linked files"
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("peers", "All notes as peers")
+					.addOption("choose", "Choose a main note")
+					.setValue(this.plugin.settings.sourceMainMode)
+					.onChange(async (value: SourceMainMode) => {
+						this.plugin.settings.sourceMainMode = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Order")
+			.setDesc("The order in which the notes appear in the prompt")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("path", "By path")
+					.addOption("modified", "By modified time (oldest first)")
+					.addOption("created", "By created time (oldest first)")
+					.setValue(this.plugin.settings.sourceOrder)
+					.onChange(async (value: SourceOrder) => {
+						this.plugin.settings.sourceOrder = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// Exclusions Section
+		containerEl.createEl("h3", { text: "Exclusions" });
+		containerEl.createEl("p", {
+			text: "Files matching these rules are never included as linked files, backlinks, embeds or notes of a folder, tag or search. Linked files that are excluded are listed by name only, so the AI knows they exist. Templates can add their own rules.",
+		});
+
+		addExclusionSettings(
+			containerEl,
+			this.plugin.settings.exclusionRules,
+			async (rules) => {
+				this.plugin.settings.exclusionRules = rules;
+				this.plugin.requestSaveSettings();
+			}
+		);
+
+		// Redaction Section
+		containerEl.createEl("h3", { text: "Redaction" });
+		containerEl.createEl("p", {
+			text: "Replace sensitive text in file contents with placeholders like [EMAIL_1] before the prompt is output. The same value gets the same placeholder in every file. The preview shows what will be redacted.",
+		});
+
+		new Setting(containerEl)
+			.setName("Redact Sensitive Text")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.redactionEnabled)
+					.onChange(async (value) => {
+						this.plugin.settings.redactionEnabled = value;
+						await this.plugin.saveSettings();
+						this.display(); // Refresh the display to show/hide the redaction settings
+					})
+			);
+
+		if (this.plugin.settings.redactionEnabled) {
+			for (const id of REDACTION_DETECTOR_IDS) {
+				const detector = REDACTION_DETECTORS[id](
+					this.plugin.settings.redactionCalloutType
+				);
+				new Setting(containerEl)
+					.setName(detector.name)
+					.setDesc(`Replaced by [${detector.label}_1], ...`)
+					.addToggle((toggle) =>
+						toggle
+							.setValue(
+								this.plugin.settings.redactionDetectors.includes(
+									id
+								)
+							)
+							.onChange(async (value) => {
+								this.plugin.settings.redactionDetectors = value
+									? [
+											...this.plugin.settings
+												.redactionDetectors,
+											id,
+									  ]
+									: this.plugin.settings.redactionDetectors.filter(
+											(detectorId) => detectorId !== id
+									  );
+								await this.plugin.saveSettings();
+							})
+					);
+			}
+
+			new Setting(containerEl)
+				.setName("Redacted Callout Type")
+				.setDesc(
+					"Callouts of this type are redacted, e.g. private for > [!private]"
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("private")
+						.setValue(this.plugin.settings.redactionCalloutType)
+						.onChange(async (value) => {
+							this.plugin.settings.redactionCalloutType =
+								value.trim() ||
+								DEFAULT_SETTINGS.redactionCalloutType;
+							this.plugin.requestSaveSettings();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName("Custom Rules")
+				.setDesc(
+					"Regular expressions for other sensitive text, like project code names or customer IDs. The rule name is used for the placeholder. If the expression has a capture group, only the first group is replaced."
+				)
+				.addButton((button) =>
+					button.setButtonText("Add Rule").onClick(async () => {
+						this.plugin.settings.redactionRules = [
+							...this.plugin.settings.redactionRules,
+							{ name: "Custom", pattern: "" },
+						];
+						await this.plugin.saveSettings();
+						this.display(); // Refresh display
+					})
+				);
+
+			this.plugin.settings.redactionRules.forEach((rule) => {
+				new Setting(containerEl)
+					.addText((text) =>
+						text
+							.setPlaceholder("Name")
+							.setValue(rule.name)
+							.onChange(async (value) => {
+								rule.name = value;
+								this.plugin.requestSaveSettings();
+							})
+					)
+					.addText((text) => {
+						const validate = () => {
+							text.inputEl.style.borderColor =
+								rule.pattern === "" ||
+								parseRedactionPattern(rule.pattern)
+									? ""
+									: "var(--text-error)";
+						};
+						text.setPlaceholder("Regular expression")
+							.setValue(rule.pattern)
+							.onChange(async (value) => {
+								rule.pattern = value;
+								validate();
+								this.plugin.requestSaveSettings();
+							});
+						validate();
+					})
+					.addButton((button) =>
+						button
+							.setButtonText("Delete")
+							.setWarning()
+							.onClick(async () => {
+								this.plugin.settings.redactionRules =
+									this.plugin.settings.redactionRules.filter(
+										(other) => other !== rule
+									);
+								await this.plugin.saveSettings();
+								this.display(); // Refresh display
+							})
+					);
+			});
 		}
 
-		return sections;
-	}
+		// LLM Endpoint Section
+		containerEl.createEl("h3", { text: "LLM Endpoint" });
+		containerEl.createEl("p", {
+			text: 'The endpoint prompts are sent to with the "Send to LLM" output. Any server with an OpenAI- or Anthropic-compatible API works, including local servers like Ollama (http://localhost:11434/v1).',
+		});
 
-	/**
-	 * Cleanup any section markers that might appear within extracted content
-	 */
-	private cleanupNestedMarkers(content: string): string {
-		// This will prevent any nested markers from being styled again
-		return content.replace(/===== \[.+?\] =====/g, (match) => {
-			// Replace < with &lt; to avoid HTML interpretation
-			return match.replace(/</g, "&lt;");
+		const provider = LLM_PROVIDERS[this.plugin.settings.llmProvider];
+		new Setting(containerEl).setName("API Type").addDropdown((dropdown) => {
+			for (const option of Object.keys(LLM_PROVIDERS).map(
+				(id: LLMProviderId) => LLM_PROVIDERS[id]
+			)) {
+				dropdown.addOption(option.id, option.name);
+			}
+			dropdown
+				.setValue(this.plugin.settings.llmProvider)
+				.onChange(async (value: LLMProviderId) => {
+					this.plugin.settings.llmProvider = value;
+					await this.plugin.saveSettings();
+					this.display(); // Refresh the display to update the default base URL
+				});
 		});
-	}
 
-	onClose() {
-		const { contentEl } = this;
-		contentEl.empty();
-	}
-}
+		new Setting(containerEl)
+			.setName("Base URL")
+			.setDesc(`Empty for ${provider.defaultBaseUrl}`)
+			.addText((text) =>
+				text
+					.setPlaceholder(provider.defaultBaseUrl)
+					.setValue(this.plugin.settings.llmBaseUrl)
+					.onChange(async (value) => {
+						this.plugin.settings.llmBaseUrl = value.trim();
+						this.plugin.requestSaveSettings();
+					})
+			);
 
-class LLMContextSettingTab extends PluginSettingTab {
-	plugin: LLMContextPlugin;
+		new Setting(containerEl)
+			.setName("API Key")
+			.setDesc(
+				"Stored in the plugin settings and only sent to the endpoint. Leave empty for local servers that don't need one."
+			)
+			.addText((text) => {
+				text.inputEl.type = "password";
+				text.setValue(this.plugin.settings.llmApiKey).onChange(
+					async (value) => {
+						this.plugin.settings.llmApiKey = value.trim();
+						this.plugin.requestSaveSettings();
+					}
+				);
+			});
 
-	constructor(app: App, plugin: LLMContextPlugin) {
-		super(app, plugin);
-		this.plugin = plugin;
-	}
+		new Setting(containerEl)
+			.setName("Model")
+			.setDesc("e.g. gpt-4o, claude-sonnet-4-5 or llama3.1")
+			.addText((text) =>
+				text
+					.setValue(this.plugin.settings.llmModel)
+					.onChange(async (value) => {
+						this.plugin.settings.llmModel = value.trim();
+						this.plugin.requestSaveSettings();
+					})
+			);
 
-	display(): void {
-		const { containerEl } = this;
-		containerEl.empty();
+		new Setting(containerEl)
+			.setName("Maximum Response Tokens")
+			.setDesc(
+				"Maximum length of the response. 0 leaves it to the endpoint, except for Anthropic-compatible APIs, which require one."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("4096")
+					.setValue(String(this.plugin.settings.llmMaxTokens))
+					.onChange(async (value) => {
+						this.plugin.settings.llmMaxTokens =
+							parseNonNegativeInt(value) ?? 0;
+						this.plugin.requestSaveSettings();
+					})
+			);
 
-		containerEl.createEl("h2", { text: "LLM Context Settings" });
+		// Token Budget Section
+		containerEl.createEl("h3", { text: "Token Budget" });
 
-		// Introduction
-		const introDiv = containerEl.createEl("div");
-		introDiv.style.marginBottom = "20px";
-		introDiv.createEl("p", {
-			text: "This plugin generates structured prompts for AI tools based on the current file and its linked references in your vault.",
-		});
+		new Setting(containerEl)
+			.setName("Token Budget")
+			.setDesc(
+				"Maximum estimated tokens per prompt. When exceeded, linked files are trimmed or dropped and a summary of what was cut is appended. Templates can override this. 0 means no limit."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("0")
+					.setValue(String(this.plugin.settings.tokenBudget))
+					.onChange(async (value) => {
+						this.plugin.settings.tokenBudget =
+							parseNonNegativeInt(value) ?? 0;
+						this.plugin.requestSaveSettings();
+					})
+			);
 
-		// Output Options
 		new Setting(containerEl)
-			.setName("Output")
-			.setDesc("Choose how you want to output the prompt")
+			.setName("Token Estimator")
+			.setDesc("How the number of tokens in the prompt is estimated")
 			.addDropdown((dropdown) => {
+				for (const estimator of Object.keys(
+					this.plugin.tokenEstimators
+				).map((id) => this.plugin.tokenEstimators[id])) {
+					dropdown.addOption(estimator.id, estimator.name);
+				}
 				dropdown
-					.addOption("clipboard", "Copy to Clipboard")
-					.addOption("file", "Save to File")
-					.addOption("modal", "Display in Modal")
-					.setValue(this.plugin.settings.outputOption)
-					.onChange(async (value: "clipboard" | "file" | "modal") => {
-						this.plugin.settings.outputOption = value;
+					.setValue(this.plugin.settings.tokenEstimator)
+					.onChange(async (value) => {
+						this.plugin.settings.tokenEstimator = value;
 						await this.plugin.saveSettings();
-						this.display(); // Refresh the display to show/hide file name setting
 					});
 			});
 
-		// File Name Setting (only show if output option is "file")
-		if (this.plugin.settings.outputOption === "file") {
-			const fileNameSetting = new Setting(containerEl)
-				.setName("Output File Name")
-				.setDesc("Name of the file to save the prompt to");
-
-			const fileNameInputEl = document.createElement("textarea");
-			fileNameInputEl.value = this.plugin.settings.outputFileName;
-			fileNameInputEl.rows = 1;
-			fileNameInputEl.style.width = "100%";
-			fileNameInputEl.addEventListener("blur", async () => {
-				this.plugin.settings.outputFileName = fileNameInputEl.value;
-				await this.plugin.saveSettings();
-			});
-
-			fileNameSetting.controlEl.appendChild(fileNameInputEl);
-		}
+		new Setting(containerEl)
+			.setName("Truncation Priority")
+			.setDesc(
+				"Which linked files to keep first when the prompt exceeds the budget. The other criteria are used as tie-breakers."
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("distance", "Closest links first")
+					.addOption("size", "Smallest files first")
+					.addOption("recency", "Most recently modified first")
+					.setValue(this.plugin.settings.truncationPriority)
+					.onChange(async (value: TruncationPriority) => {
+						this.plugin.settings.truncationPriority = value;
+						await this.plugin.saveSettings();
+					})
+			);
 
 		// Instruction Templates Section
 		containerEl.createEl("h3", { text: "Instruction Templates" });
 		containerEl.createEl("p", {
-			text: "Templates appear as commands in the command palette. Use them to quickly generate context for specific AI tasks.",
+			text: "Templates appear as commands in the command palette. Use them to quickly generate context for specific AI tasks. Templates can use the same variables as the system instruction, like {{activeFile}} or {{frontmatter.status}}.",
 		});
 
 		// Add template button
@@ -648,35 +8246,86 @@ class LLMContextSettingTab extends PluginSettingTab {
 			.setDesc("Create a new instruction template")
 			.addButton((button) => {
 				button.setButtonText("Add Template").onClick(async () => {
-					const templateName = await new TemplateNameModal(
-						this.app
+					const templateName = await new TextInputModal(
+						this.app,
+						"Enter Template Name",
+						"Template name",
+						"Add",
+						(name) => this.plugin.validateTemplateName(name)
 					).open();
 
-					if (templateName && templateName.trim() !== "") {
-						// Check if template already exists
-						if (
-							this.plugin.settings.instructionTemplates[
-								templateName
-							]
-						) {
-							new Notice(
-								`Template "${templateName}" already exists`
-							);
-							return;
-						}
-
-						// Add new template
-						this.plugin.settings.instructionTemplates[
-							templateName
-						] = "";
-						await this.plugin.saveSettings();
+					if (templateName) {
+						await this.plugin.addTemplate(templateName);
 						this.display(); // Refresh display
 					}
 				});
 			});
 
+		// Import and export of the templates in the settings
+		new Setting(containerEl)
+			.setName("Import / Export")
+			.setDesc(
+				"Export the templates below as JSON to share them, or import templates exported from another vault"
+			)
+			.addButton((button) =>
+				button.setButtonText("Export Templates").onClick(async () => {
+					await navigator.clipboard.writeText(
+						this.plugin.exportTemplates()
+					);
+					new Notice("Templates copied to clipboard as JSON");
+				})
+			)
+			.addButton((button) =>
+				button.setButtonText("Import Templates").onClick(async () => {
+					const result = await new ImportTemplatesModal(
+						this.app
+					).open();
+					if (!result) {
+						return;
+					}
+
+					try {
+						const { added, invalid, overwrite, rename, skip } =
+							await this.plugin.importTemplates(
+								result.json,
+								result.conflict
+							);
+						new Notice(
+							`Imported ${
+								added.length + overwrite.length + rename.length
+							} template(s): ${added.length} new, ${
+								overwrite.length
+							} overwritten, ${rename.length} renamed, ${
+								skip.length
+							} skipped${
+								invalid.length
+									? `, ${invalid.length} with an invalid name skipped`
+									: ""
+							}`
+						);
+						this.display(); // Refresh display
+					} catch (error) {
+						new Notice(
+							`Could not import templates: ${error.message}`
+						);
+					}
+				})
+			);
+
 		// Display all existing templates
 		for (const templateName in this.plugin.settings.instructionTemplates) {
+			const template =
+				this.plugin.settings.instructionTemplates[templateName];
+			const updateTemplate = async (
+				changes: Partial<InstructionTemplate>
+			) => {
+				this.plugin.settings.instructionTemplates[templateName] = {
+					...this.plugin.settings.instructionTemplates[templateName],
+					...changes,
+				};
+				this.plugin.requestSaveSettings();
+			};
+
 			const templateSection = containerEl.createDiv();
 			templateSection.classList.add("template-section");
 			templateSection.style.marginBottom = "20px";
@@ -697,6 +8346,30 @@ class LLMContextSettingTab extends PluginSettingTab {
 			deleteButton.style.marginLeft = "10px";
 			deleteButton.style.float = "right";
 
+			// Rename button
+			const renameButton = templateHeader.createEl("button", {
+				text: "Rename",
+			});
+			renameButton.style.marginLeft = "10px";
+			renameButton.style.float = "right";
+
+			renameButton.addEventListener("click", async () => {
+				const newName = await new TextInputModal(
+					this.app,
+					`Rename Template "${templateName}"`,
+					"Template name",
+					"Rename",
+					(name) =>
+						this.plugin.validateTemplateName(name, templateName),
+					templateName
+				).open();
+
+				if (newName && newName !== templateName) {
+					await this.plugin.renameTemplate(templateName, newName);
+					this.display(); // Refresh display
+				}
+			});
+
 			deleteButton.addEventListener("click", async () => {
 				// Confirm deletion
 				const confirmed = await new ConfirmationModal(
@@ -711,22 +8384,218 @@ class LLMContextSettingTab extends PluginSettingTab {
 					];
 
 					await this.plugin.saveSettings();
+					// A template note skipped for having this name can now be loaded
+					await this.plugin.loadVaultTemplates();
 					this.display(); // Refresh display
 				}
 			});
 
+			// Description, shown in the command name
+			new Setting(templateSection)
+				.setName("Description")
+				.setDesc(
+					"Shown after the template name in the command palette, to find the command when assigning a hotkey"
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("e.g. Summarize for a status update")
+						.setValue(template.description ?? "")
+						.onChange(async (value) => {
+							await updateTemplate({
+								description: value.trim() || undefined,
+							});
+						})
+				);
+
 			// Template content textarea
 			const templateTextarea = templateSection.createEl("textarea");
-			templateTextarea.value =
-				this.plugin.settings.instructionTemplates[templateName];
+			templateTextarea.value = template.instruction;
 			templateTextarea.placeholder = "Enter instructions for the LLM...";
 			templateTextarea.style.width = "100%";
 			templateTextarea.style.minHeight = "150px";
 			templateTextarea.addEventListener("blur", async () => {
-				this.plugin.settings.instructionTemplates[templateName] =
-					templateTextarea.value;
-				await this.plugin.saveSettings();
+				await updateTemplate({ instruction: templateTextarea.value });
+			});
+
+			// Per-template system instruction
+			new Setting(templateSection)
+				.setName("System Instruction")
+				.addDropdown((dropdown) => {
+					dropdown.addOption("", "Active system instruction");
+					for (const name of Object.keys(
+						this.plugin.settings.systemPrompts
+					)) {
+						dropdown.addOption(name, name);
+					}
+					dropdown
+						.setValue(template.systemPrompt ?? "")
+						.onChange(async (value) => {
+							await updateTemplate({
+								systemPrompt: value || undefined,
+							});
+						});
+				});
+
+			// Per-template prompt format
+			new Setting(templateSection)
+				.setName("Prompt Format")
+				.addDropdown((dropdown) => {
+					dropdown.addOption("", "Global default");
+					for (const format of Object.keys(PROMPT_FORMATS).map(
+						(id: PromptFormatId) => PROMPT_FORMATS[id]
+					)) {
+						dropdown.addOption(format.id, format.name);
+					}
+					dropdown
+						.setValue(template.promptFormat ?? "")
+						.onChange(async (value: PromptFormatId | "") => {
+							await updateTemplate({
+								promptFormat: value || undefined,
+							});
+						});
+				});
+
+			// Per-template link depth
+			new Setting(templateSection)
+				.setName("Link Depth")
+				.setDesc("A note's llm-depth property still takes precedence")
+				.addDropdown((dropdown) => {
+					dropdown.addOption("", "Global default");
+					for (let depth = 1; depth <= 10; depth++) {
+						dropdown.addOption(String(depth), String(depth));
+					}
+					dropdown
+						.setValue(String(template.linkDepth ?? ""))
+						.onChange(async (value) => {
+							await updateTemplate({
+								linkDepth: value
+									? parseInt(value, 10)
+									: undefined,
+							});
+						});
+				});
+
+			// Per-template backlinks
+			new Setting(templateSection)
+				.setName("Backlinks")
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOption("", "Global default")
+						.addOption("off", "Don't include")
+						.addOption("note", "Whole linking notes")
+						.addOption("paragraph", "Mentioning paragraphs only")
+						.setValue(template.backlinksMode ?? "")
+						.onChange(async (value: BacklinksMode | "") => {
+							await updateTemplate({
+								backlinksMode: value || undefined,
+							});
+						})
+				);
+
+			// Per-template token budget
+			new Setting(templateSection)
+				.setName("Token Budget")
+				.setDesc("Leave empty to use the global token budget")
+				.addText((text) =>
+					text
+						.setPlaceholder("Global")
+						.setValue(String(template.tokenBudget ?? ""))
+						.onChange(async (value) => {
+							await updateTemplate({
+								tokenBudget: parseNonNegativeInt(value),
+							});
+						})
+				);
+
+			// Per-template output actions, collapsed by default
+			const outputEl = templateSection.createEl("details");
+			outputEl.createEl("summary", {
+				text: template.outputActions
+					? "Output (own actions)"
+					: "Output (global actions)",
+			});
+			new Setting(outputEl)
+				.setName("Use the Global Output Actions")
+				.addToggle((toggle) =>
+					toggle
+						.setValue(!template.outputActions)
+						.onChange(async (value) => {
+							await updateTemplate({
+								outputActions: value
+									? undefined
+									: [...this.plugin.settings.outputActions],
+							});
+							this.display(); // Refresh the display to show/hide the actions
+						})
+				);
+			if (template.outputActions) {
+				outputEl.open = true;
+				addOutputActionsSettings(
+					outputEl,
+					template.outputActions,
+					async (actions) => {
+						await updateTemplate({ outputActions: actions });
+					}
+				);
+			}
+
+			// Per-template exclusion rules, collapsed by default
+			const exclusionsEl = templateSection.createEl("details");
+			exclusionsEl.createEl("summary", {
+				text: "Exclusions (in addition to the global rules)",
 			});
+			addExclusionSettings(
+				exclusionsEl,
+				template.exclusionRules ?? DEFAULT_SETTINGS.exclusionRules,
+				async (rules) => {
+					await updateTemplate({ exclusionRules: rules });
+				}
+			);
+		}
+
+		// Templates stored as notes
+		new Setting(containerEl)
+			.setName("Template Folder")
+			.setDesc(
+				"Folder of templates stored as notes, e.g. to share them with a team. Each note is a template named after the note: its body is the instruction, and its properties the template settings (description, systemPrompt, promptFormat, outputActions, linkDepth, backlinksMode, tokenBudget, excludeFolders, excludeGlobs, excludeTags and excludeMaxSizeKb). Templates above with the same name take precedence."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("Templates/LLM")
+					.setValue(this.plugin.settings.templateFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.templateFolder = value.trim();
+						this.plugin.requestSaveSettings();
+						this.plugin.requestLoadVaultTemplates();
+					})
+			);
+
+		for (const templateName of Object.keys(this.plugin.vaultTemplates)) {
+			const template = this.plugin.vaultTemplates[templateName];
+			const shadowed =
+				templateName in this.plugin.settings.instructionTemplates;
+			new Setting(containerEl)
+				.setName(templateName)
+				.setDesc(
+					shadowed
+						? "Not used: a template above has the same name"
+						: template.description ??
+								template.instruction.slice(0, 100)
+				)
+				.addButton((button) =>
+					button.setButtonText("Open").onClick(() => {
+						const file = this.app.vault
+							.getMarkdownFiles()
+							.find(
+								(file) =>
+									file.basename === templateName &&
+									this.plugin.isInTemplateFolder(file.path)
+							);
+						if (file) {
+							this.app.workspace.getLeaf("tab").openFile(file);
+						}
+					})
+				);
 		}
 
 		// System Instruction Section (moved to bottom)
@@ -735,27 +8604,294 @@ class LLMContextSettingTab extends PluginSettingTab {
 		const systemDescDiv = containerEl.createEl("div");
 		systemDescDiv.style.marginBottom = "15px";
 		systemDescDiv.createEl("p", {
-			text: "This is the system instruction that is included at the beginning of every prompt. It describes the data structure to the AI.",
+			text: "This is the system instruction that is included at the beginning of every prompt. It describes the data structure to the AI: {{structure}} is replaced by a description of the prompt format in use. You can keep several named system instructions and choose which one is used.",
+		});
+		systemDescDiv.createEl("p", {
+			text: "Variables available in system instructions and templates: {{date}} (or {{date:YYYY-MM-DD HH:mm}} with a custom format), {{time}}, {{vault}}, {{activeFile}} (or {{basename}}), {{activeFilePath}}, {{source}}, {{template}}, {{linkedCount}}, {{frontmatter.key}} and {{structure}}.",
 		});
 
+		const systemPromptNames = Object.keys(
+			this.plugin.settings.systemPrompts
+		);
+		const activeSystemPrompt = this.plugin.settings.activeSystemPrompt;
+
+		new Setting(containerEl)
+			.setName("Active System Instruction")
+			.setDesc("The system instruction used when generating prompts")
+			.addDropdown((dropdown) => {
+				for (const name of systemPromptNames) {
+					dropdown.addOption(name, name);
+				}
+				dropdown
+					.setValue(activeSystemPrompt)
+					.onChange(async (value) => {
+						this.plugin.settings.activeSystemPrompt = value;
+						await this.plugin.saveSettings();
+						this.display(); // Refresh display to edit the selected instruction
+					});
+			})
+			.addButton((button) =>
+				button.setButtonText("Add").onClick(async () => {
+					const name = await new TextInputModal(
+						this.app,
+						"Enter System Instruction Name",
+						"System instruction name",
+						"Add",
+						(text) =>
+							text === ""
+								? "Enter a name"
+								: this.plugin.settings.systemPrompts[text] !==
+								  undefined
+								? `System instruction "${text}" already exists`
+								: undefined
+					).open();
+
+					if (name) {
+						this.plugin.settings.systemPrompts[name] =
+							DEFAULT_SYSTEM_PROMPT;
+						this.plugin.settings.activeSystemPrompt = name;
+						await this.plugin.saveSettings();
+						this.display(); // Refresh display
+					}
+				})
+			)
+			.addButton((button) =>
+				button.setButtonText("Reset to Default").onClick(async () => {
+					const confirmed = await new ConfirmationModal(
+						this.app,
+						`Reset system instruction "${activeSystemPrompt}" to the default?`
+					).open();
+
+					if (confirmed) {
+						this.plugin.settings.systemPrompts[activeSystemPrompt] =
+							DEFAULT_SYSTEM_PROMPT;
+						await this.plugin.saveSettings();
+						this.display(); // Refresh display
+					}
+				})
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Delete")
+					.setWarning()
+					.setDisabled(systemPromptNames.length <= 1)
+					.onClick(async () => {
+						const confirmed = await new ConfirmationModal(
+							this.app,
+							`Delete system instruction "${activeSystemPrompt}"?`
+						).open();
+
+						if (confirmed) {
+							delete this.plugin.settings.systemPrompts[
+								activeSystemPrompt
+							];
+							this.plugin.settings.activeSystemPrompt =
+								Object.keys(
+									this.plugin.settings.systemPrompts
+								)[0];
+							await this.plugin.saveSettings();
+							this.display(); // Refresh display
+						}
+					})
+			);
+
 		const systemInstructionDiv = containerEl.createEl("div");
 		systemInstructionDiv.classList.add("system-instruction-container");
-		systemInstructionDiv.style.border =
-			"1px solid var(--background-modifier-border)";
-		systemInstructionDiv.style.borderRadius = "5px";
-		systemInstructionDiv.style.padding = "10px";
-		systemInstructionDiv.style.backgroundColor =
-			"var(--background-secondary)";
 		systemInstructionDiv.style.marginBottom = "20px";
 
-		const systemInstructionPre = systemInstructionDiv.createEl("pre");
-		systemInstructionPre.style.whiteSpace = "pre-wrap";
-		systemInstructionPre.style.margin = "0";
-		systemInstructionPre.style.color = "var(--text-normal)";
-		systemInstructionPre.textContent = SYSTEM_INSTRUCTION;
+		const systemInstructionTextarea =
+			systemInstructionDiv.createEl("textarea");
+		systemInstructionTextarea.classList.add(
+			"llm-context-instruction-textarea"
+		);
+		systemInstructionTextarea.value = this.plugin.getSystemPrompt();
+		systemInstructionTextarea.placeholder =
+			"Enter the system instruction for the LLM...";
+		systemInstructionTextarea.style.width = "100%";
+		systemInstructionTextarea.style.minHeight = "200px";
+		systemInstructionTextarea.addEventListener("blur", async () => {
+			this.plugin.settings.systemPrompts[activeSystemPrompt] =
+				systemInstructionTextarea.value;
+			await this.plugin.saveSettings();
+		});
 	}
 }
 
+/**
+ * Add an editor for an ordered list of output actions, which calls
+ * `onChange` with a new list on every change
+ */
+function addOutputActionsSettings(
+	containerEl: HTMLElement,
+	actions: OutputAction[],
+	onChange: (actions: OutputAction[]) => Promise<void>
+) {
+	const listEl = containerEl.createDiv();
+	let current = actions;
+
+	const update = async (next: OutputAction[]) => {
+		current = next;
+		await onChange(current);
+		render();
+	};
+
+	const render = () => {
+		listEl.empty();
+
+		current.forEach((action, index) => {
+			new Setting(listEl)
+				.setName(`${index + 1}. ${OUTPUT_ACTION_NAMES[action]}`)
+				.addExtraButton((btn) =>
+					btn
+						.setIcon("arrow-up")
+						.setTooltip("Move up")
+						.setDisabled(index === 0)
+						.onClick(() => {
+							const next = [...current];
+							next[index] = current[index - 1];
+							next[index - 1] = action;
+							update(next);
+						})
+				)
+				.addExtraButton((btn) =>
+					btn
+						.setIcon("arrow-down")
+						.setTooltip("Move down")
+						.setDisabled(index === current.length - 1)
+						.onClick(() => {
+							const next = [...current];
+							next[index] = current[index + 1];
+							next[index + 1] = action;
+							update(next);
+						})
+				)
+				.addExtraButton((btn) =>
+					btn
+						.setIcon("x")
+						.setTooltip("Remove")
+						.onClick(() =>
+							update(
+								current.filter((_, other) => other !== index)
+							)
+						)
+				);
+		});
+
+		// Each action can be added once
+		const available = OUTPUT_ACTIONS.filter(
+			(action) => !current.includes(action)
+		);
+		if (available.length > 0) {
+			let selected = available[0];
+			new Setting(listEl)
+				.setName("Add Action")
+				.addDropdown((dropdown) => {
+					for (const action of available) {
+						dropdown.addOption(action, OUTPUT_ACTION_NAMES[action]);
+					}
+					dropdown
+						.setValue(selected)
+						.onChange((value: OutputAction) => {
+							selected = value;
+						});
+				})
+				.addButton((btn) =>
+					btn
+						.setButtonText("Add")
+						.onClick(() => update([...current, selected]))
+				);
+		}
+	};
+
+	render();
+}
+
+/**
+ * Add the settings for a set of exclusion rules. Changes are passed to
+ * `onChange` as a new set of rules.
+ */
+function addExclusionSettings(
+	containerEl: HTMLElement,
+	rules: ExclusionRules,
+	onChange: (rules: ExclusionRules) => Promise<void>
+) {
+	let current = rules;
+	const update = async (changes: Partial<ExclusionRules>) => {
+		current = { ...current, ...changes };
+		await onChange(current);
+	};
+
+	// Split a list entered one per line or separated by commas
+	const parseList = (value: string) =>
+		value
+			.split(/[\n,]/)
+			.map((item) => item.trim())
+			.filter((item) => item !== "");
+
+	new Setting(containerEl)
+		.setName("Excluded Folders")
+		.setDesc("One folder path per line, e.g. Private or Templates")
+		.addTextArea((text) =>
+			text
+				.setPlaceholder("Private")
+				.setValue(rules.folders.join("\n"))
+				.onChange(async (value) => {
+					await update({ folders: parseList(value) });
+				})
+		);
+
+	new Setting(containerEl)
+		.setName("Excluded Patterns")
+		.setDesc(
+			"One glob pattern per line, matched against the file path. * matches within a folder, ** across folders, e.g. Daily/**/*.md"
+		)
+		.addTextArea((text) =>
+			text
+				.setPlaceholder("Daily/**/*.md")
+				.setValue(rules.globs.join("\n"))
+				.onChange(async (value) => {
+					await update({ globs: parseList(value) });
+				})
+		);
+
+	new Setting(containerEl)
+		.setName("Excluded Tags")
+		.setDesc(
+			"Comma-separated tags, including their nested tags, e.g. #private, #draft"
+		)
+		.addText((text) =>
+			text
+				.setPlaceholder("#private")
+				.setValue(rules.tags.join(", "))
+				.onChange(async (value) => {
+					await update({ tags: parseList(value) });
+				})
+		);
+
+	new Setting(containerEl)
+		.setName("Maximum File Size (KB)")
+		.setDesc("Larger files are excluded. 0 means no limit.")
+		.addText((text) =>
+			text
+				.setPlaceholder("0")
+				.setValue(String(rules.maxSizeKb))
+				.onChange(async (value) => {
+					await update({
+						maxSizeKb: parseNonNegativeInt(value) ?? 0,
+					});
+				})
+		);
+}
+
+/**
+ * Parse a whole number of zero or more entered in the settings, like a token
+ * budget or a row limit, or undefined if empty or invalid
+ */
+function parseNonNegativeInt(value: string): number | undefined {
+	const number = parseInt(value.trim(), 10);
+	return isNaN(number) || number < 0 ? undefined : number;
+}
+
 /**
  * Modal for confirming an action
  */
@@ -811,30 +8947,135 @@ class ConfirmationModal extends Modal {
 }
 
 /**
- * Modal for entering a template name
+ * Modal for pasting exported templates and choosing what happens when a
+ * name is taken
  */
-class TemplateNameModal extends Modal {
-	private result: string = "";
+class ImportTemplatesModal extends Modal {
+	private result: { json: string; conflict: ImportConflict } | null = null;
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl("h2", { text: "Import Templates" });
+		contentEl.createEl("p", {
+			text: 'Paste templates exported with "Export Templates".',
+		});
+
+		const textarea = contentEl.createEl("textarea", {
+			attr: { placeholder: '{ "version": 1, "templates": { ... } }' },
+		});
+		textarea.style.width = "100%";
+		textarea.style.minHeight = "200px";
+		textarea.style.fontFamily = "var(--font-monospace)";
+
+		let conflict: ImportConflict = "rename";
+		new Setting(contentEl)
+			.setName("When a Template Name Is Taken")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("rename", "Add a number to the name")
+					.addOption("skip", "Keep the existing template")
+					.addOption("overwrite", "Overwrite the existing template")
+					.setValue(conflict)
+					.onChange((value: ImportConflict) => {
+						conflict = value;
+					})
+			);
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn.setButtonText("Cancel").onClick(() => {
+					this.result = null;
+					this.close();
+				})
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Import")
+					.setCta()
+					.onClick(() => {
+						this.result = { json: textarea.value, conflict };
+						this.close();
+					})
+			);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	async open(): Promise<{ json: string; conflict: ImportConflict } | null> {
+		super.open();
+		return new Promise((resolve) => {
+			this.onClose = () => {
+				this.contentEl.empty();
+				resolve(this.result);
+			};
+		});
+	}
+}
 
-	constructor(app: App) {
+/**
+ * Modal for entering a line of text, like a name or a search query
+ */
+class TextInputModal extends Modal {
+	private result: string = "";
+	private title: string;
+	private placeholder: string;
+	private buttonText: string;
+	// Returns why a text can't be used, or undefined if it can
+	private validate?: (text: string) => string | undefined;
+	private value: string;
+
+	constructor(
+		app: App,
+		title: string,
+		placeholder: string,
+		buttonText: string,
+		validate?: (text: string) => string | undefined,
+		value = ""
+	) {
 		super(app);
+		this.title = title;
+		this.placeholder = placeholder;
+		this.buttonText = buttonText;
+		this.validate = validate;
+		this.value = value;
 	}
 
 	onOpen() {
 		const { contentEl } = this;
-		contentEl.createEl("h2", { text: "Enter Template Name" });
+		contentEl.createEl("h2", { text: this.title });
 
 		const inputEl = contentEl.createEl("input", {
 			type: "text",
-			placeholder: "Template name",
+			placeholder: this.placeholder,
+			value: this.value,
 		});
 		inputEl.style.width = "100%";
-		inputEl.style.marginBottom = "20px";
 
+		const errorEl = contentEl.createDiv();
+		errorEl.style.color = "var(--text-error)";
+		errorEl.style.fontSize = "0.9em";
+		errorEl.style.marginTop = "5px";
+		errorEl.style.marginBottom = "20px";
+
+		// The text is trimmed, and only submitted if it is valid
+		const submit = () => {
+			const text = inputEl.value.trim();
+			const error = this.validate?.(text);
+			if (error) {
+				errorEl.setText(error);
+				inputEl.focus();
+				return;
+			}
+			this.result = text;
+			this.close();
+		};
+
+		inputEl.addEventListener("input", () => errorEl.setText(""));
 		inputEl.addEventListener("keydown", (e) => {
 			if (e.key === "Enter") {
-				this.result = inputEl.value;
-				this.close();
+				submit();
 			}
 		});
 
@@ -849,13 +9090,7 @@ class TemplateNameModal extends Modal {
 					})
 			)
 			.addButton((btn) =>
-				btn
-					.setButtonText("Add")
-					.setCta()
-					.onClick(() => {
-						this.result = inputEl.value;
-						this.close();
-					})
+				btn.setButtonText(this.buttonText).setCta().onClick(submit)
 			);
 	}
 